@@ -0,0 +1,50 @@
+/**
+ * A single level of the campaign, as defined in `assets/campaign.json`.
+ */
+export interface ILevel {
+  /**
+   * Key the level's Tiled map is loaded with.
+   */
+  readonly key: string;
+
+  /**
+   * Path to the level's Tiled map.
+   */
+  readonly map: string;
+
+  readonly title: string;
+
+  /**
+   * Spoken by the crew when the level starts.
+   */
+  readonly intro: string;
+}
+
+/**
+ * The sequence of levels played, in order.
+ */
+export interface ICampaign {
+  readonly levels: ILevel[];
+}
+
+/**
+ * Running totals of the levels of a campaign played so far, for the results.
+ */
+export interface ICampaignTotals {
+  /**
+   * Crew that have been under the player's control, including the dead, each
+   * counted once however many levels they were carried through.
+   */
+  readonly crewTotal: number;
+  readonly turns: number;
+  readonly zombiesKilled: number;
+}
+
+/**
+ * Totals before the first level is played.
+ */
+export const noCampaignTotals: ICampaignTotals = {
+  crewTotal: 0,
+  turns: 0,
+  zombiesKilled: 0,
+};
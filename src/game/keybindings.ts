@@ -0,0 +1,267 @@
+/**
+ * Something the player can do by pressing a key.
+ */
+export type KeyAction =
+  | 'move-nw'
+  | 'move-n'
+  | 'move-ne'
+  | 'move-w'
+  | 'move-e'
+  | 'move-sw'
+  | 'move-s'
+  | 'move-se'
+  | 'select-next'
+  | 'select-1'
+  | 'select-2'
+  | 'select-3'
+  | 'select-4'
+  | 'select-5'
+  | 'select-6'
+  | 'select-7'
+  | 'select-8'
+  | 'select-9'
+  | 'cycle-targets'
+  | 'attack-target'
+  | 'end-turn'
+  | 'undo';
+
+/**
+ * Names of the keys bound to each action, as in
+ * @see phaser.Input.Keyboard.KeyCodes (e.g. `Q`, `SPACE` or `NUMPAD_SEVEN`).
+ */
+export type KeyMap = { readonly [A in KeyAction]: string[] };
+
+/**
+ * The player's keyboard settings, as saved by @see KeySettingsStorage.
+ */
+export interface IKeySettings {
+  readonly bindings: KeyMap;
+
+  /**
+   * Whether holding down a key repeats its action, if it's repeatable.
+   */
+  readonly repeat: boolean;
+}
+
+/**
+ * Every action, in the order they are listed in the settings.
+ */
+export const keyActions: KeyAction[] = [
+  'move-nw',
+  'move-n',
+  'move-ne',
+  'move-w',
+  'move-e',
+  'move-sw',
+  'move-s',
+  'move-se',
+  'select-next',
+  'select-1',
+  'select-2',
+  'select-3',
+  'select-4',
+  'select-5',
+  'select-6',
+  'select-7',
+  'select-8',
+  'select-9',
+  'cycle-targets',
+  'attack-target',
+  'end-turn',
+  'undo',
+];
+
+/**
+ * How each action is described in the settings.
+ */
+export const keyActionLabels: { readonly [A in KeyAction]: string } = {
+  'move-nw': 'Move north-west',
+  'move-n': 'Move north',
+  'move-ne': 'Move north-east',
+  'move-w': 'Move west',
+  'move-e': 'Move east',
+  'move-sw': 'Move south-west',
+  'move-s': 'Move south',
+  'move-se': 'Move south-east',
+  'select-next': 'Select next crew member',
+  'select-1': 'Select crew member 1',
+  'select-2': 'Select crew member 2',
+  'select-3': 'Select crew member 3',
+  'select-4': 'Select crew member 4',
+  'select-5': 'Select crew member 5',
+  'select-6': 'Select crew member 6',
+  'select-7': 'Select crew member 7',
+  'select-8': 'Select crew member 8',
+  'select-9': 'Select crew member 9',
+  'cycle-targets': 'Cycle through targets',
+  'attack-target': 'Attack or use target',
+  'end-turn': 'End turn',
+  undo: 'Undo move',
+};
+
+/**
+ * Cells moved by each of the move actions.
+ */
+export const moveDeltas: {
+  readonly [action: string]: { readonly x: number; readonly y: number };
+} = {
+  'move-nw': { x: -1, y: -1 },
+  'move-n': { x: 0, y: -1 },
+  'move-ne': { x: 1, y: -1 },
+  'move-w': { x: -1, y: 0 },
+  'move-e': { x: 1, y: 0 },
+  'move-sw': { x: -1, y: 1 },
+  'move-s': { x: 0, y: 1 },
+  'move-se': { x: 1, y: 1 },
+};
+
+/**
+ * Actions selecting a crew member, in the order of their index.
+ */
+export const selectActions: KeyAction[] = keyActions.filter(
+  a => a.indexOf('select-') === 0 && a !== 'select-next'
+);
+
+/**
+ * Actions repeated while their key is held down, if enabled.
+ */
+export const repeatableActions: KeyAction[] = [
+  ...(Object.keys(moveDeltas) as KeyAction[]),
+  'select-next',
+  'cycle-targets',
+];
+
+/**
+ * Keys shared by every layout, for actions other than moving.
+ */
+const commonBindings = {
+  'select-next': ['TAB'],
+  'select-1': ['ONE'],
+  'select-2': ['TWO'],
+  'select-3': ['THREE'],
+  'select-4': ['FOUR'],
+  'select-5': ['FIVE'],
+  'select-6': ['SIX'],
+  'select-7': ['SEVEN'],
+  'select-8': ['EIGHT'],
+  'select-9': ['NINE'],
+  'end-turn': ['SPACE'],
+};
+
+/**
+ * Preset bindings the player can choose from, by name.
+ */
+export const keyLayouts: { readonly [name: string]: KeyMap } = {
+  qweasd: {
+    ...commonBindings,
+    'move-nw': ['Q'],
+    'move-n': ['W'],
+    'move-ne': ['E'],
+    'move-w': ['A'],
+    'move-e': ['D'],
+    'move-sw': ['Z'],
+    'move-s': ['S'],
+    'move-se': ['C'],
+    'cycle-targets': ['R'],
+    'attack-target': ['F'],
+    undo: ['U'],
+  },
+  arrows: {
+    ...commonBindings,
+    'move-nw': ['NUMPAD_SEVEN'],
+    'move-n': ['UP', 'NUMPAD_EIGHT'],
+    'move-ne': ['NUMPAD_NINE'],
+    'move-w': ['LEFT', 'NUMPAD_FOUR'],
+    'move-e': ['RIGHT', 'NUMPAD_SIX'],
+    'move-sw': ['NUMPAD_ONE'],
+    'move-s': ['DOWN', 'NUMPAD_TWO'],
+    'move-se': ['NUMPAD_THREE'],
+    'cycle-targets': ['NUMPAD_ZERO'],
+    'attack-target': ['ENTER'],
+    undo: ['BACKSPACE'],
+  },
+  vi: {
+    ...commonBindings,
+    'move-nw': ['Y'],
+    'move-n': ['K'],
+    'move-ne': ['U'],
+    'move-w': ['H'],
+    'move-e': ['L'],
+    'move-sw': ['B'],
+    'move-s': ['J'],
+    'move-se': ['N'],
+    'cycle-targets': ['T'],
+    'attack-target': ['F'],
+    undo: ['BACKSPACE'],
+  },
+};
+
+/**
+ * Settings used until the player changes them.
+ */
+export const defaultKeySettings: IKeySettings = {
+  bindings: keyLayouts.qweasd,
+  repeat: true,
+};
+
+/**
+ * Returns @param settings with @param key bound to @param action only,
+ * replacing its other keys and unbinding the key from any other action.
+ */
+export function bindKey(
+  settings: IKeySettings,
+  action: KeyAction,
+  key: string
+): IKeySettings {
+  const bindings: { [A in KeyAction]?: string[] } = {};
+  keyActions.forEach(a => {
+    bindings[a] =
+      a === action ? [key] : settings.bindings[a].filter(k => k !== key);
+  });
+  return { ...settings, bindings: bindings as KeyMap };
+}
+
+/**
+ * Saves and loads the keyboard settings in browser storage.
+ */
+export class KeySettingsStorage {
+  private static readonly key = 'ludum-43/keys';
+
+  constructor(private readonly storage: Storage = window.localStorage) {}
+
+  public save(settings: IKeySettings): void {
+    this.storage.setItem(KeySettingsStorage.key, JSON.stringify(settings));
+  }
+
+  /**
+   * Returns the saved settings, or the defaults if there are none. Actions
+   * added since the settings were saved get their default keys.
+   *
+   * Settings that can't be read (e.g. edited by hand) are discarded.
+   */
+  public load(): IKeySettings {
+    const json = this.storage.getItem(KeySettingsStorage.key);
+    if (json === null) {
+      return defaultKeySettings;
+    }
+    let saved: Partial<IKeySettings> | null;
+    try {
+      saved = JSON.parse(json);
+    } catch (e) {
+      saved = null;
+    }
+    if (
+      saved === null ||
+      typeof saved !== 'object' ||
+      typeof saved.repeat !== 'boolean' ||
+      typeof saved.bindings !== 'object'
+    ) {
+      this.storage.removeItem(KeySettingsStorage.key);
+      return defaultKeySettings;
+    }
+    return {
+      repeat: saved.repeat,
+      bindings: { ...defaultKeySettings.bindings, ...saved.bindings },
+    };
+  }
+}
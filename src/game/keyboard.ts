@@ -1,55 +1,90 @@
 import * as phaser from 'phaser';
+import {
+  IKeySettings,
+  KeyAction,
+  keyActions,
+  repeatableActions,
+} from './keybindings';
+
+/**
+ * Milliseconds a key is held down before its action starts repeating.
+ */
+const repeatDelay = 300;
+
+/**
+ * Milliseconds between repeats of a held down key's action.
+ */
+const repeatInterval = 150;
 
 export class Keyboard {
+  /**
+   * Returns the name of @param keyCode in @see phaser.Input.Keyboard.KeyCodes,
+   * or `undefined` if Phaser doesn't know the key.
+   */
+  public static keyName(keyCode: number): string | undefined {
+    const codes = (phaser.Input.Keyboard.KeyCodes as {}) as {
+      [name: string]: number;
+    };
+    return Object.keys(codes).find(name => codes[name] === keyCode);
+  }
+
   private readonly keys: Array<{
-    name: string;
+    action: KeyAction;
+    key: phaser.Input.Keyboard.Key;
+  }> = [];
+  private lastKeyDown?: {
+    action: KeyAction;
     key: phaser.Input.Keyboard.Key;
-  }>;
-  private lastKeyDown?: phaser.Input.Keyboard.Key;
+    repeatAt: number;
+  };
 
+  /**
+   * Listens to the keys bound in @param settings, calling @param onAction
+   * with the action of each key pressed.
+   */
   constructor(
-    scene: phaser.Scene,
-    private readonly onPress: (key: string) => void
+    private readonly scene: phaser.Scene,
+    private readonly settings: IKeySettings,
+    private readonly onAction: (action: KeyAction) => void
   ) {
-    function createKey(
-      name: string | phaser.Input.Keyboard.KeyCodes,
-      humanized = `${name}`
-    ): {
-      name: string;
-      key: phaser.Input.Keyboard.Key;
-    } {
-      return {
-        name: humanized,
-        key: scene.input.keyboard.addKey(name),
-      };
-    }
-    this.keys = [
-      createKey('q'),
-      createKey('w'),
-      createKey('e'),
-      createKey('a'),
-      createKey('s'),
-      createKey('d'),
-      createKey('z'),
-      createKey('c'),
-      createKey('tab'),
-      createKey(phaser.Input.Keyboard.KeyCodes.ONE, '1'),
-      createKey(phaser.Input.Keyboard.KeyCodes.TWO, '2'),
-      createKey(phaser.Input.Keyboard.KeyCodes.THREE, '3'),
-      createKey(phaser.Input.Keyboard.KeyCodes.SPACE, 'space'),
-    ];
+    keyActions.forEach(action => {
+      settings.bindings[action].forEach(name => {
+        this.keys.push({ action, key: scene.input.keyboard.addKey(name) });
+      });
+    });
   }
 
-  public update(): void {
-    if (this.lastKeyDown && this.lastKeyDown.isUp) {
+  /**
+   * @param time Current time in milliseconds, as given to
+   * @see phaser.Scene.update.
+   */
+  public update(time: number): void {
+    const held = this.lastKeyDown;
+    if (held && held.key.isUp) {
       this.lastKeyDown = undefined;
     }
-    for (const key of this.keys) {
-      if (key.key.isDown && this.lastKeyDown !== key.key) {
-        this.lastKeyDown = key.key;
-        this.onPress(key.name);
+    for (const { action, key } of this.keys) {
+      if (key.isDown && (!this.lastKeyDown || this.lastKeyDown.key !== key)) {
+        this.lastKeyDown = { action, key, repeatAt: time + repeatDelay };
+        this.onAction(action);
         return;
       }
     }
+    if (
+      this.lastKeyDown &&
+      this.settings.repeat &&
+      repeatableActions.indexOf(this.lastKeyDown.action) !== -1 &&
+      time >= this.lastKeyDown.repeatAt
+    ) {
+      this.lastKeyDown.repeatAt = time + repeatInterval;
+      this.onAction(this.lastKeyDown.action);
+    }
+  }
+
+  /**
+   * Stops listening to the keys, e.g. before listening with new settings.
+   */
+  public destroy(): void {
+    this.keys.forEach(({ key }) => this.scene.input.keyboard.removeKey(key));
   }
 }
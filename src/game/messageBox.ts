@@ -18,11 +18,16 @@ export class MessageBox extends phaser.GameObjects.Container {
 
   private messageBoxBottom: number = 0;
 
+  /**
+   * @param onChoice Called with the choice selected, and its index in
+   * @param choices, after closing.
+   */
   constructor(
     scene: phaser.Scene,
     private readonly character: Character,
     private readonly text: string,
-    private readonly choices: string[] = []
+    private readonly choices: string[] = [],
+    private readonly onChoice?: (choice: string, index: number) => void
   ) {
     super(scene, borderSize, borderSize);
 
@@ -182,6 +187,9 @@ export class MessageBox extends phaser.GameObjects.Container {
           })
           .on('pointerdown', () => {
             this.destroy();
+            if (this.onChoice) {
+              this.onChoice(cstr, cind);
+            }
           });
 
         this.choiceButtons.push(choiceButton);
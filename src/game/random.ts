@@ -0,0 +1,52 @@
+// Hashing relies on 32-bit integer arithmetic.
+//
+// tslint:disable:no-bitwise
+
+/**
+ * A seedable pseudo-random number generator (Mulberry32).
+ *
+ * Unlike `Math.random`, the same seed always produces the same sequence, so
+ * game behaviour can be reproduced.
+ */
+export class Random {
+  private mState: number;
+
+  /**
+   * @param state Internal state to resume from, if not starting from the seed.
+   */
+  constructor(public readonly seed: number = Date.now(), state = seed) {
+    this.mState = state >>> 0;
+  }
+
+  /**
+   * Internal state, which can be used to resume the sequence later.
+   */
+  public get state(): number {
+    return this.mState;
+  }
+
+  /**
+   * Returns a number in the range [0, 1).
+   */
+  public next(): number {
+    this.mState = (this.mState + 0x6d2b79f5) >>> 0;
+    let t = this.mState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns an integer in the range [0, @param max).
+   */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Returns a random element of @param items, or undefined if empty.
+   */
+  public pick<T>(items: ReadonlyArray<T>): T | undefined {
+    return items[this.nextInt(items.length)];
+  }
+}
@@ -0,0 +1,77 @@
+import * as phaser from 'phaser';
+import { SCREEN_WIDTH, SCREEN_HEIGHT } from './constants';
+import { GameState } from './world/simulation';
+import { ICampaignTotals } from './campaign';
+
+const titleTextSize = 32;
+const bodyTextSize = 16;
+const lineHeight = 24;
+const paddingSize = 40;
+
+/**
+ * Summary of a finished game, shown by @see ResultsScene: who made it out of
+ * the last level played, and the totals of the whole campaign.
+ */
+export interface IGameResults extends ICampaignTotals {
+  readonly state: GameState;
+  readonly survivors: string[];
+}
+
+/**
+ * Shown when the game is won or lost, with the option to play again.
+ */
+export class ResultsScene extends phaser.Scene {
+  public static readonly key = 'ResultsScene';
+
+  private results!: IGameResults;
+
+  constructor() {
+    super({ key: ResultsScene.key });
+  }
+
+  public init(results: IGameResults): void {
+    this.results = results;
+  }
+
+  public create(): void {
+    const { state, survivors, crewTotal, turns, zombiesKilled } = this.results;
+    this.cameras.main.setBackgroundColor('#031F4C');
+
+    const title = this.add.text(
+      SCREEN_WIDTH / 2,
+      paddingSize,
+      state === GameState.Victory ? 'We made it!' : 'Nobody made it...'
+    );
+    title.setFontSize(titleTextSize);
+    title.setX(title.x - title.width / 2);
+
+    const lines = [
+      `Crew rescued: ${survivors.length} of ${crewTotal}`,
+      `Turns taken: ${turns}`,
+      `Zombies killed: ${zombiesKilled}`,
+      '',
+      survivors.length > 0 ? 'Rescued:' : 'No survivors.',
+      ...survivors.map(name => `  ${name}`),
+    ];
+    lines.forEach((line, i) => {
+      this.add
+        .text(paddingSize, paddingSize * 2 + i * lineHeight, line)
+        .setFontSize(bodyTextSize);
+    });
+
+    const restart = this.add.text(
+      SCREEN_WIDTH / 2,
+      SCREEN_HEIGHT - paddingSize * 2,
+      '[ Play Again ]'
+    );
+    restart.setFontSize(bodyTextSize);
+    restart.setX(restart.x - restart.width / 2);
+    restart
+      .setInteractive({
+        useHandCursor: true,
+      })
+      .on('pointerdown', () => {
+        this.scene.start('HelloScene');
+      });
+  }
+}
@@ -0,0 +1,170 @@
+import * as phaser from 'phaser';
+import { SCREEN_WIDTH, SCREEN_HEIGHT } from './constants';
+import {
+  bindKey,
+  IKeySettings,
+  KeyAction,
+  keyActionLabels,
+  keyActions,
+  keyLayouts,
+  KeySettingsStorage,
+} from './keybindings';
+import { Keyboard } from './keyboard';
+
+const titleTextSize = 32;
+const bodyTextSize = 16;
+const lineHeight = 22;
+const paddingSize = 40;
+const keysOffset = 240;
+const highlightColor = '#FFE066';
+
+/**
+ * Shown over a paused scene to change which keys do what, saving the
+ * settings when closed.
+ */
+export class SettingsScene extends phaser.Scene {
+  public static readonly key = 'SettingsScene';
+
+  private readonly storage = new KeySettingsStorage();
+  private settings!: IKeySettings;
+  private returnTo!: string;
+  private texts: phaser.GameObjects.Text[] = [];
+
+  /**
+   * Action waiting for a key to be pressed to bind to it, if any.
+   */
+  private rebinding: KeyAction | null = null;
+
+  constructor() {
+    super({ key: SettingsScene.key });
+  }
+
+  /**
+   * @param returnTo Key of the paused scene to resume once closed.
+   */
+  public init({ returnTo }: { returnTo: string }): void {
+    this.returnTo = returnTo;
+    this.settings = this.storage.load();
+    this.texts = [];
+    this.rebinding = null;
+  }
+
+  public create(): void {
+    this.cameras.main.setBackgroundColor('#031F4C');
+    this.input.keyboard.on('keydown', (event: KeyboardEvent) =>
+      this.onKeyDown(event)
+    );
+    this.draw();
+  }
+
+  /**
+   * Binds the key pressed to the action being rebound, if any; escape
+   * cancels instead.
+   */
+  private onKeyDown(event: KeyboardEvent): void {
+    const action = this.rebinding;
+    if (action === null) {
+      return;
+    }
+    this.rebinding = null;
+    const name = Keyboard.keyName(event.keyCode);
+    if (name !== undefined && name !== 'ESC') {
+      this.settings = bindKey(this.settings, action, name);
+    }
+    this.draw();
+  }
+
+  /**
+   * Recreates every text to show the current settings.
+   */
+  private draw(): void {
+    this.texts.forEach(t => t.destroy());
+    this.texts = [];
+
+    const title = this.addText(SCREEN_WIDTH / 2, paddingSize, 'Controls');
+    title.setFontSize(titleTextSize);
+    title.setX(title.x - title.width / 2);
+
+    let y = paddingSize * 2 + lineHeight;
+    let x = paddingSize;
+    this.addText(x, y, 'Layout:');
+    x += keysOffset;
+    Object.keys(keyLayouts).forEach(name => {
+      const button = this.addButton(x, y, `[ ${name} ]`, () => {
+        this.settings = { ...this.settings, bindings: keyLayouts[name] };
+        this.draw();
+      });
+      x += button.width + paddingSize / 2;
+    });
+    y += lineHeight * 2;
+
+    // List the actions in two columns, to fit the screen.
+    const rows = Math.ceil(keyActions.length / 2);
+    keyActions.forEach((action, i) => {
+      const column = Math.floor(i / rows);
+      const labelX = paddingSize + (column * SCREEN_WIDTH) / 2;
+      const rowY = y + (i % rows) * lineHeight;
+      const keys =
+        this.rebinding === action
+          ? 'Press a key (Esc to cancel)...'
+          : this.settings.bindings[action].join(' / ') || '-';
+      this.addText(labelX, rowY, keyActionLabels[action]);
+      const button = this.addButton(labelX + keysOffset, rowY, keys, () => {
+        this.rebinding = action;
+        this.draw();
+      });
+      if (this.rebinding === action) {
+        button.setColor(highlightColor);
+      }
+    });
+    y += (rows + 1) * lineHeight;
+
+    this.addButton(
+      paddingSize,
+      y,
+      `[ Repeat held keys: ${this.settings.repeat ? 'on' : 'off'} ]`,
+      () => {
+        this.settings = { ...this.settings, repeat: !this.settings.repeat };
+        this.draw();
+      }
+    );
+
+    const done = this.addButton(
+      SCREEN_WIDTH / 2,
+      SCREEN_HEIGHT - paddingSize * 2,
+      '[ Done ]',
+      () => this.close()
+    );
+    done.setX(done.x - done.width / 2);
+  }
+
+  /**
+   * Saves the settings and resumes the paused scene.
+   */
+  private close(): void {
+    this.storage.save(this.settings);
+    this.scene.resume(this.returnTo);
+    this.scene.stop(SettingsScene.key);
+  }
+
+  private addText(x: number, y: number, text: string): phaser.GameObjects.Text {
+    const added = this.add.text(x, y, text).setFontSize(bodyTextSize);
+    this.texts.push(added);
+    return added;
+  }
+
+  private addButton(
+    x: number,
+    y: number,
+    text: string,
+    onClick: () => void
+  ): phaser.GameObjects.Text {
+    const button = this.addText(x, y, text);
+    button
+      .setInteractive({
+        useHandCursor: true,
+      })
+      .on('pointerdown', onClick);
+    return button;
+  }
+}
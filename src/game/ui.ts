@@ -7,17 +7,47 @@ const menuForeground = 0x031f4c;
 const charForeground = 0xddd;
 const charForegroundSelected = 0x00ff00;
 const charHeight = 60;
+
+/**
+ * Where the list of characters starts, below the title.
+ */
+const charListTop = 40;
 const charTextSize = 14;
 const paddingSize = 10;
 const titleTextSize = 20;
 const hpTextSize = 12;
+const itemTextColor = '#FFFF66';
+const smallButtonHeight = 24;
+const saveSlots = ['1', '2'];
+const undoButtonWidth = 50;
+
+/**
+ * Opacity of buttons that currently do nothing.
+ */
+const disabledAlpha = 0.4;
+
+/**
+ * Rows of small buttons above the end turn button.
+ */
+const buttonRows = 3;
 
 export class UIMenu extends phaser.GameObjects.Container {
   private static readonly uiWidth = 200;
 
   private readonly graphics: phaser.GameObjects.Graphics;
   private readonly titleText: phaser.GameObjects.Text;
+  private readonly turnText: phaser.GameObjects.Text;
+  private readonly savedText: phaser.GameObjects.Text;
   private readonly characters: UIMenuCharacter[] = [];
+  private readonly saved: string[] = [];
+  private readonly scrollButtons: phaser.GameObjects.Container[] = [];
+  private readonly undoButton: phaser.GameObjects.Container;
+
+  /**
+   * Index of the first character shown, when there are too many to list.
+   */
+  private scrollIndex = 0;
+  private shownSelection: Character | null = null;
 
   constructor(scene: phaser.Scene, public readonly world: World) {
     super(scene, 0, 0);
@@ -30,12 +60,30 @@ export class UIMenu extends phaser.GameObjects.Container {
     );
     this.titleText.setFontSize(titleTextSize);
 
+    // Create the turn counter, shown above the saved characters.
+    this.turnText = this.scene.add.text(paddingSize, 0, '');
+    this.turnText.setFontSize(hpTextSize);
+
+    // Create (initially empty) list of saved characters.
+    this.savedText = this.scene.add.text(paddingSize, 0, '', {
+      wordWrap: {
+        width: UIMenu.uiWidth - paddingSize * 2,
+      },
+    });
+    this.savedText.setFontSize(hpTextSize);
+
     // Draw Initial Menu.
     this.graphics = this.scene.add.graphics();
     this.add(this.graphics);
     this.add(this.titleText);
-    this.update();
+    this.add(this.turnText);
+    this.add(this.savedText);
+    this.alignBounds();
+    this.undoButton = this.createUndoButton();
     this.createEndTurnButton();
+    this.createSaveLoadButtons();
+    this.createScrollButtons();
+    this.update();
 
     // Ignore Camera.
     this.setScrollFactor(0, 0);
@@ -45,10 +93,8 @@ export class UIMenu extends phaser.GameObjects.Container {
     const item = new UIMenuCharacter(
       this.scene,
       this,
-      character.sprite,
       this.graphics,
-      character,
-      this.characters.length
+      character
     );
     this.add(item);
     this.characters.push(item);
@@ -61,6 +107,14 @@ export class UIMenu extends phaser.GameObjects.Container {
     this.characters.splice(this.characters.indexOf(item), 1);
   }
 
+  /**
+   * Lists the character named @param name as having been evacuated.
+   */
+  public addSaved(name: string): void {
+    this.saved.push(name);
+    this.savedText.text = `Saved: ${this.saved.join(', ')}`;
+  }
+
   public update(): void {
     this.alignBounds();
     this.graphics.clear();
@@ -68,11 +122,66 @@ export class UIMenu extends phaser.GameObjects.Container {
     this.graphics.fillStyle(menuForeground);
     this.graphics.strokeRect(0, this.y, this.width, this.height);
     this.graphics.fillRect(0, this.y, this.width, this.height);
+    this.savedText.setY(
+      this.height -
+        charHeight -
+        paddingSize * 2 -
+        buttonRows * (smallButtonHeight + paddingSize) -
+        this.savedText.height
+    );
+    this.undoButton.setAlpha(this.world.canUndo ? 1 : disabledAlpha);
+    this.turnText.text = `Turn ${this.world.turn}`;
+    this.turnText.setY(this.savedText.y - this.turnText.height - paddingSize);
+
+    // Show as many characters as fit above the turn counter.
+    const shown = Math.max(
+      1,
+      Math.floor((this.turnText.y - paddingSize - charListTop) / charHeight)
+    );
+    this.updateScroll(shown);
     this.characters.forEach((c, i) => {
-      // tslint:disable-next-line:no-magic-numbers
-      c.update(i * charHeight + 40, this.width - paddingSize, charHeight);
+      const row = i - this.scrollIndex;
+      c.setVisible(row >= 0 && row < shown);
+      if (c.visible) {
+        c.update(
+          row * charHeight + charListTop,
+          this.width - paddingSize,
+          charHeight
+        );
+      }
+    });
+  }
+
+  /**
+   * Scrolls the list of characters by @param rows.
+   */
+  public scroll(rows: number): void {
+    this.scrollIndex += rows;
+  }
+
+  /**
+   * Keeps the list scrolled within bounds, to the selected character whenever
+   * the selection changes, given that @param shown characters fit.
+   */
+  private updateScroll(shown: number): void {
+    const selected = this.world.getSelectedPlayer();
+    if (selected !== this.shownSelection) {
+      this.shownSelection = selected;
+      const index = this.characters.findIndex(c => c.character === selected);
+      if (index !== -1 && index < this.scrollIndex) {
+        this.scrollIndex = index;
+      } else if (index >= this.scrollIndex + shown) {
+        this.scrollIndex = index - shown + 1;
+      }
+    }
+    const maxIndex = Math.max(0, this.characters.length - shown);
+    this.scrollIndex = Math.min(Math.max(this.scrollIndex, 0), maxIndex);
+    this.scrollButtons.forEach(b => {
+      b.setVisible(maxIndex > 0);
+      b.setY(this.turnText.y);
     });
   }
+
   private alignBounds(): void {
     const { width, height } = this.scene.game.canvas;
     this.x = width - UIMenu.uiWidth;
@@ -81,13 +190,107 @@ export class UIMenu extends phaser.GameObjects.Container {
     this.height = height;
   }
 
-  private createEndTurnButton(): void {
-    const button = this.scene.add.container(
+  /**
+   * Creates a button to take back the last move, beside the end turn button,
+   * faded out while there is nothing to undo.
+   */
+  private createUndoButton(): phaser.GameObjects.Container {
+    return this.createButton(
       paddingSize,
-      this.height - charHeight - paddingSize
+      this.height - charHeight - paddingSize,
+      undoButtonWidth,
+      charHeight,
+      'Undo',
+      () => this.world.undo()
     );
+  }
+
+  private createEndTurnButton(): void {
+    this.createButton(
+      undoButtonWidth + paddingSize * 2,
+      this.height - charHeight - paddingSize,
+      this.width - undoButtonWidth - paddingSize * 3,
+      charHeight,
+      'End Turn',
+      () => this.world.endTurn()
+    );
+  }
+
+  /**
+   * Creates rows of buttons above the end turn button: one to save to each
+   * slot, one to load from each slot (including the autosave), and one to
+   * export or play back a replay, or change the keys.
+   */
+  private createSaveLoadButtons(): void {
+    const rows: Array<Array<{ label: string; onClick: () => void }>> = [
+      saveSlots.map(slot => ({
+        label: `Save ${slot}`,
+        onClick: () => this.world.saveGame(slot),
+      })),
+      [...saveSlots, World.autosaveSlot].map(slot => ({
+        label: `Load ${slot}`,
+        onClick: () => this.world.loadGame(slot),
+      })),
+      [
+        { label: 'Export', onClick: () => this.world.exportReplay() },
+        { label: 'Replay', onClick: () => this.world.importReplay() },
+        { label: 'Keys', onClick: () => this.world.openSettings() },
+      ],
+    ];
+    rows.forEach((buttons, row) => {
+      const y =
+        this.height -
+        charHeight -
+        paddingSize * 2 -
+        (rows.length - row) * (smallButtonHeight + paddingSize);
+      const width =
+        (this.width - paddingSize * (buttons.length + 1)) / buttons.length;
+      buttons.forEach(({ label, onClick }, i) => {
+        this.createButton(
+          paddingSize + i * (width + paddingSize),
+          y,
+          width,
+          smallButtonHeight,
+          label,
+          onClick,
+          hpTextSize
+        );
+      });
+    });
+  }
+
+  /**
+   * Creates buttons beside the turn counter to scroll the list of characters,
+   * shown only when they don't all fit.
+   */
+  private createScrollButtons(): void {
+    ['▲', '▼'].forEach((label, i) => {
+      const button = this.createButton(
+        this.width - (2 - i) * (smallButtonHeight + paddingSize),
+        0,
+        smallButtonHeight,
+        smallButtonHeight,
+        label,
+        () => this.scroll(i === 0 ? -1 : 1),
+        hpTextSize
+      );
+      button.setVisible(false);
+      this.scrollButtons.push(button);
+    });
+  }
+
+  private createButton(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    label: string,
+    onClick: () => void,
+    fontSize?: number
+  ): phaser.GameObjects.Container {
+    const button = this.scene.add.container(x, y);
     button.setScrollFactor(0);
-    button.setSize(this.width - paddingSize * 2, charHeight);
+    button.setSize(width, height);
     this.add(button);
 
     const graphics = this.scene.add.graphics();
@@ -100,8 +303,11 @@ export class UIMenu extends phaser.GameObjects.Container {
     const text = this.scene.add.text(
       button.width / 2,
       button.height / 2,
-      'End Turn'
+      label
     );
+    if (fontSize !== undefined) {
+      text.setFontSize(fontSize);
+    }
     text.setPosition(text.x - text.width / 2, text.y - text.height / 2);
     button.add(text);
 
@@ -117,29 +323,28 @@ export class UIMenu extends phaser.GameObjects.Container {
         hitAreaCallback: Phaser.Geom.Rectangle.Contains,
         useHandCursor: true,
       })
-      .on('pointerdown', () => {
-        this.world.endTurn();
-      });
+      .on('pointerdown', onClick);
+    return button;
   }
 }
 
 export class UIMenuCharacter extends phaser.GameObjects.Container {
   private previewSprite!: phaser.GameObjects.Sprite;
   private hpText!: phaser.GameObjects.Text;
+  private itemTexts: phaser.GameObjects.Text[] = [];
+  private shownItems = '';
 
   constructor(
     scene: phaser.Scene,
     private readonly uimenu: UIMenu,
-    private readonly target: phaser.GameObjects.Sprite,
     private readonly graphics: phaser.GameObjects.Graphics,
-    public readonly character: Character,
-    private readonly id: number
+    public readonly character: Character
   ) {
     super(scene);
 
     this.createCharacterName();
     this.createHPandAPMeter();
-    this.createPreviewOfChar(this.target);
+    this.createPreviewOfChar();
     this.setScrollFactor(0);
   }
 
@@ -147,14 +352,18 @@ export class UIMenuCharacter extends phaser.GameObjects.Container {
     this.alignContent(y, width, height);
     this.drawBox();
     this.updateText();
+    this.updateItems();
   }
 
   private onClick(): void {
-    this.uimenu.world.selectPlayer(this.id);
+    if (this.uimenu.world.isInputLocked) {
+      return;
+    }
+    this.uimenu.world.selectPlayer(this.character.id);
   }
 
   public isSelected(): boolean {
-    return this.uimenu.world.getSelectedPlayerId() === this.id;
+    return this.uimenu.world.getSelectedPlayerId() === this.character.id;
   }
 
   private alignContent(y: number, width: number, height: number): void {
@@ -197,13 +406,47 @@ export class UIMenuCharacter extends phaser.GameObjects.Container {
   }
 
   private updateText(): void {
+    const { ranged, ammo, infection } = this.character;
     this.hpText.text = `${this.character.stats.hitPoints} HP, ${
       this.character.stats.actionPoints
-    } AP`;
+    } AP${ranged !== null && ranged.usesAmmo ? `, ${ammo} ammo` : ''}${
+      infection !== null ? ', infected' : ''
+    }`;
+  }
+
+  /**
+   * Lists the items carried, each of which is used by clicking on it.
+   */
+  private updateItems(): void {
+    const items = this.character.items.join();
+    if (items === this.shownItems) {
+      return;
+    }
+    this.shownItems = items;
+    this.itemTexts.forEach(t => t.destroy());
+    let x = paddingSize * 4;
+    this.itemTexts = this.character.items.map(key => {
+      const text = this.scene.add.text(
+        x,
+        // tslint:disable-next-line:no-magic-numbers
+        paddingSize * 3.8,
+        this.uimenu.world.getItem(key).name
+      );
+      text.setFontSize(hpTextSize);
+      text.setColor(itemTextColor);
+      text
+        .setInteractive({ useHandCursor: true })
+        .on('pointerdown', () =>
+          this.uimenu.world.useItem(this.character, key)
+        );
+      this.add(text);
+      x += text.width + paddingSize / 2;
+      return text;
+    });
   }
 
-  private createPreviewOfChar(from: phaser.GameObjects.Sprite): void {
-    this.previewSprite = this.scene.add.sprite(0, 0, from.texture.key);
+  private createPreviewOfChar(): void {
+    this.previewSprite = this.scene.add.sprite(0, 0, this.character.sprite);
     this.previewSprite.setScale(0.5);
     this.add(this.previewSprite);
     this.previewSprite
@@ -1,30 +1,83 @@
-import * as phaser from 'phaser';
-
 import { Character, Control } from './unit';
-import { Grid } from './grid';
-import { World } from './world';
+import { Cell, Grid } from './grid';
+import { Simulation } from './simulation';
+import { Pathfinder } from './pathfinding';
+import { Visibility } from './visibility';
+import { Random } from '../random';
+
+/**
+ * What a single zombie remembers between turns.
+ */
+export interface IZombieMemory {
+  /**
+   * Cells to walk between, in order, when there is nothing else to do.
+   */
+  readonly patrol: Cell[];
+
+  /**
+   * Index into @see patrol of the cell currently being walked to.
+   */
+  patrolIndex: number;
+
+  /**
+   * Where a human was last seen, if not yet investigated.
+   */
+  lastKnownPosition: Cell | null;
+}
 
 export class AIController {
   private static readonly rangeOfVisibility = 5;
 
+  /**
+   * Furthest a zombie will walk around obstacles to reach a human it sees.
+   */
+  private static readonly maxPathLength = 20;
+
+  private readonly pathfinder: Pathfinder;
+  private readonly visibility: Visibility;
+  private readonly memories = new Map<Character, IZombieMemory>();
+
+  /**
+   * @param random Source of randomness, seeded for reproducible behaviour.
+   */
   constructor(
     private readonly grid: Grid,
-    private readonly world: World,
-    private readonly zombies: Character[]
-  ) {}
+    private readonly simulation: Simulation,
+    private readonly zombies: Character[],
+    private readonly random: Random
+  ) {
+    this.pathfinder = new Pathfinder(this.grid);
+    this.visibility = new Visibility(this.grid);
+  }
+
+  /**
+   * Orders @param zombie to walk along @param patrol while idle.
+   */
+  public assignPatrol(zombie: Character, patrol: Cell[]): void {
+    this.memories.set(zombie, {
+      ...this.memoryOf(zombie),
+      patrol,
+      patrolIndex: 0,
+    });
+  }
 
   /**
-   * Runs a single turn of updates.
+   * Runs a single turn of updates, one zombie after another.
+   *
+   * The returned @see Promise completes when every zombie has finished
+   * acting, including animations.
    *
    * This should *NOT* be run on the game loop, only when the playetr has ended
    * their turn and it is the AI's turn to make movements.
    */
-  public doTurn(): void {
-    this.zombies.forEach(z => {
+  public async doTurn(): Promise<void> {
+    // Copied, as zombies may be killed during the turn.
+    for (const z of [...this.zombies]) {
       z.stats.restoreFull();
       const position = this.grid.get(z.x, z.y);
       const nearby: Character[] = [];
-      for (const cell of position.adjacentCells(
+      for (const cell of this.visibility.visibleCells(
+        position,
         AIController.rangeOfVisibility
       )) {
         for (const unit of cell.units) {
@@ -33,8 +86,8 @@ export class AIController {
           }
         }
       }
-      this.doActions(z, nearby);
-    });
+      await this.doActions(z, nearby);
+    }
   }
 
   /**
@@ -42,64 +95,165 @@ export class AIController {
    *
    * May take @param nearby characters into account.
    */
-  private doActions(zombie: Character, nearby: Iterable<Character>): void {
+  private async doActions(
+    zombie: Character,
+    nearby: Iterable<Character>
+  ): Promise<void> {
     while (zombie.stats.actionPoints) {
-      this.doAction(zombie, nearby);
+      const from = zombie.cell;
+      const acted = await this.doAction(zombie, nearby);
+      if (zombie.cell !== from) {
+        await this.simulation.handleGridEvents(zombie);
+      }
+      this.simulation.touchedHostile(zombie);
+      if (!acted || zombie.isDead) {
+        // Nothing useful left to do this turn.
+        return;
+      }
     }
   }
 
-  private doAction(zombie: Character, nearby: Iterable<Character>): void {
+  /**
+   * Orders @param zombie to perform a single action.
+   *
+   * Resolves to whether an action was performed.
+   */
+  private async doAction(
+    zombie: Character,
+    nearby: Iterable<Character>
+  ): Promise<boolean> {
+    const memory = this.memoryOf(zombie);
+
     // Primary: Attack.
     const closest = AIController.closest(
-      new phaser.Math.Vector2(zombie.x, zombie.y),
-      nearby
+      zombie,
+      Array.from(nearby).filter(h => !h.isDead)
     );
     if (closest !== null) {
+      memory.lastKnownPosition = closest.cell;
       if (AIController.inMeleeRange(zombie, closest)) {
-        this.doAttack(zombie, closest);
-        return;
+        if (zombie.stats.actionPoints < zombie.melee.actionPoints) {
+          return false;
+        }
+        await this.doAttack(zombie, closest);
+        return true;
       }
 
       // Seconary: Move.
-      this.doMoveTowards(zombie, closest);
-      return;
+      return this.doMoveTowards(zombie, closest);
+    }
+
+    // Tertiary: Investigate where a human was last seen.
+    if (memory.lastKnownPosition !== null) {
+      if (await this.doMoveToCell(zombie, memory.lastKnownPosition)) {
+        return true;
+      }
+      // Either arrived, or can't get there; lose interest.
+      memory.lastKnownPosition = null;
+    }
+
+    // Quaternary: Patrol, or otherwise wander.
+    if (memory.patrol.length > 0) {
+      return this.doPatrol(zombie, memory);
+    }
+    return this.doWander(zombie);
+  }
+
+  private doAttack(zombie: Character, human: Character): Promise<void> {
+    return this.simulation.performAttack(zombie, human);
+  }
+
+  /**
+   * Moves @param zombie a single step along the shortest path towards
+   * @param human, walking around walls and other units.
+   *
+   * Resolves to whether the zombie moved (which is not possible if blocked).
+   */
+  private async doMoveTowards(
+    zombie: Character,
+    human: Character
+  ): Promise<boolean> {
+    const path = this.pathfinder.findPathAdjacentTo(
+      zombie.cell,
+      human.cell,
+      AIController.maxPathLength
+    );
+    if (path === null || path.length === 0) {
+      return false;
     }
+    // Moving spends the AP.
+    await zombie.moveTo(path[0]);
+    return true;
+  }
 
-    // Tertiary: Wander.
-    // TODO. For now just exhaust AP.
-    zombie.stats.useActionPoints();
+  /**
+   * Moves @param zombie a single step along the shortest path to @param cell.
+   *
+   * If the cell is occupied, moves next to it instead. Resolves to whether the
+   * zombie moved, which it does not if it has already arrived or the cell
+   * can't be reached.
+   */
+  private async doMoveToCell(zombie: Character, cell: Cell): Promise<boolean> {
+    if (zombie.cell === cell) {
+      return false;
+    }
+    const path = cell.isPathable
+      ? this.pathfinder.findPath(zombie.cell, cell, AIController.maxPathLength)
+      : this.pathfinder.findPathAdjacentTo(
+          zombie.cell,
+          cell,
+          AIController.maxPathLength
+        );
+    if (path === null || path.length === 0) {
+      return false;
+    }
+    await zombie.moveTo(path[0]);
+    return true;
   }
 
-  private doAttack(zombie: Character, human: Character): void {
-    this.world.performAttack(zombie, human);
+  /**
+   * Moves @param zombie a single step towards the next cell of its patrol.
+   */
+  private doPatrol(zombie: Character, memory: IZombieMemory): Promise<boolean> {
+    const { patrol } = memory;
+    if (zombie.cell === patrol[memory.patrolIndex]) {
+      memory.patrolIndex = (memory.patrolIndex + 1) % patrol.length;
+    }
+    return this.doMoveToCell(zombie, patrol[memory.patrolIndex]);
   }
 
-  private doMoveTowards(zombie: Character, human: Character): void {
-    zombie.stats.useActionPoints();
-    let x = 0;
-    let y = 0;
-    if (human.x > zombie.x) {
-      x = 1;
-    } else if (human.x < zombie.x) {
-      x = -1;
+  /**
+   * Moves @param zombie a single step in a random direction.
+   */
+  private async doWander(zombie: Character): Promise<boolean> {
+    const cell = this.random.pick(Array.from(zombie.cell.pathableCells()));
+    if (cell === undefined) {
+      return false;
     }
-    if (human.y > zombie.y) {
-      y = 1;
-    } else if (human.y < zombie.y) {
-      y = -1;
+    await zombie.moveTo(cell);
+    return true;
+  }
+
+  /**
+   * Returns what @param zombie remembers, which may be modified.
+   */
+  public memoryOf(zombie: Character): IZombieMemory {
+    let memory = this.memories.get(zombie);
+    if (memory === undefined) {
+      memory = { patrol: [], patrolIndex: 0, lastKnownPosition: null };
+      this.memories.set(zombie, memory);
     }
-    zombie.moveTo(this.grid.get(zombie.x + x, zombie.y + y));
+    return memory;
   }
 
   private static closest(
-    to: phaser.Math.Vector2,
+    to: { readonly x: number; readonly y: number },
     humans: Iterable<Character>
   ): Character | null {
     let minDistance = Number.MAX_SAFE_INTEGER;
     let result: Character | null = null;
     for (const human of humans) {
-      const position = new phaser.Math.Vector2(human.x, human.y);
-      const distance = position.distance(to);
+      const distance = Math.hypot(human.x - to.x, human.y - to.y);
       if (distance < minDistance) {
         minDistance = distance;
         result = human;
@@ -0,0 +1,299 @@
+import * as phaser from 'phaser';
+import { TILE_SIZE } from '../constants';
+import { MessageBox } from '../messageBox';
+import { Cell } from './grid';
+import { Character, Control, PhysicalUnit } from './unit';
+
+/**
+ * Milliseconds taken to animate walking a single cell.
+ */
+const walkDuration = 150;
+
+/**
+ * Milliseconds taken to animate lunging at, or flinching from, an attack.
+ */
+const attackDuration = 100;
+
+/**
+ * Milliseconds taken for a projectile to travel a single cell.
+ */
+const projectileDuration = 40;
+
+/**
+ * Milliseconds taken for floating text to fade out.
+ */
+const textDuration = 600;
+
+/**
+ * How much smaller a cowering character appears.
+ */
+const cowerScale = 0.75;
+
+/**
+ * Tint applied to neutral crew, distinguishing them from the player's crew.
+ */
+const neutralTint = 0x999999;
+
+const hpBarH: number = 15;
+const hpBarX: number = 0;
+const hpBarY: number = TILE_SIZE;
+const greenBarColor: number = 0xffffff;
+const redBarColor: number = 0xffffff;
+const textColor: string = '#FFFFFF';
+
+export class HealthBar extends phaser.GameObjects.Container {
+  public readonly greenBar!: phaser.GameObjects.Graphics;
+  public readonly redBar!: phaser.GameObjects.Graphics;
+  public readonly textBar!: phaser.GameObjects.Text;
+
+  constructor(scene: phaser.Scene) {
+    super(scene, hpBarX, hpBarY);
+
+    this.setSize(TILE_SIZE, hpBarH);
+
+    this.greenBar = this.scene.add
+      .graphics()
+      .fillRect(this.x, this.y, TILE_SIZE, hpBarH)
+      .fillStyle(greenBarColor);
+    this.redBar = this.scene.add
+      .graphics()
+      .fillRect(this.x, this.y, 0, hpBarH)
+      .fillStyle(redBarColor);
+    this.textBar = this.scene.add.text(hpBarX, hpBarY, `UNINITIALIZED`);
+
+    this.textBar.setColor(textColor);
+    this.textBar.setFontSize(10);
+
+    this.add(this.greenBar);
+    this.add(this.redBar);
+    this.add(this.textBar);
+
+    this.setVisible(false);
+  }
+
+  public refresh(c: Character): void {
+    this.setPosition(c.x * TILE_SIZE, c.y * TILE_SIZE);
+
+    const gw = (c.stats.hitPoints / c.stats.maxHitPoints) * TILE_SIZE;
+
+    this.greenBar.fillRect(this.x, this.y, gw, hpBarH);
+
+    this.redBar.fillRect(this.x + gw, this.y, TILE_SIZE - gw, hpBarH);
+
+    this.textBar.text = `${c.stats.hitPoints}/${c.stats.maxHitPoints}`;
+    this.textBar.setPosition(
+      hpBarX + this.textBar.width / 2,
+      hpBarY + (hpBarH - this.textBar.height) / 2
+    );
+  }
+}
+
+/**
+ * Displays a @see Character, animating the events of the simulation.
+ *
+ * Hidden characters are updated without animation, so the simulation isn't
+ * held up by what the player can't see.
+ */
+export class CharacterView {
+  public readonly sprite: phaser.GameObjects.Sprite;
+  private readonly healthbar: HealthBar;
+
+  constructor(
+    private readonly scene: phaser.Scene,
+    private readonly character: Character
+  ) {
+    this.healthbar = new HealthBar(scene);
+    scene.children.add(this.healthbar);
+    this.sprite = scene.make.sprite({ key: character.sprite });
+    this.sprite.setPosition(
+      CharacterView.toWorldX(character.cell),
+      CharacterView.toWorldY(character.cell)
+    );
+    this.sprite.rotation = character.rotation;
+    this.sprite.setVisible(character.seen);
+    this.sprite.setSize(TILE_SIZE, TILE_SIZE);
+    this.cower(character.cowering);
+    this.tint(character.control);
+    this.sprite
+      .setInteractive({
+        useHandCursor: true,
+      })
+      .on('pointerover', () => {
+        this.healthbar.refresh(this.character);
+        this.healthbar.setVisible(true);
+      })
+      .on('pointerout', () => {
+        this.healthbar.setVisible(false);
+      });
+
+    character.events
+      .on('move', ({ from, animate }) => this.move(from, animate))
+      .on('rotate', rotation => {
+        this.sprite.rotation = rotation;
+      })
+      .on('attack', target => this.animateAttack(target))
+      .on('shoot', target => this.animateShot(target))
+      .on('text', text => this.animateText(text))
+      .on('hit', () => this.animateHit())
+      .on('speak', ({ text, choices, onChoice }) => {
+        scene.children.add(
+          new MessageBox(scene, this.character, text, choices, onChoice)
+        );
+      })
+      .on('cower', cowering => this.cower(cowering))
+      .on('control', control => this.tint(control))
+      .on('seen', seen => {
+        this.sprite.setVisible(seen);
+      })
+      .on('die', () => {
+        this.sprite.setTexture('blood');
+        this.sprite.setDisplaySize(TILE_SIZE, TILE_SIZE);
+      })
+      .on('destroy', () => {
+        this.sprite.destroy();
+        this.healthbar.destroy();
+      });
+  }
+
+  /**
+   * Moves the sprite to the cell of the character, walking there from
+   * @param from if @param animate is set and the sprite is visible.
+   */
+  private move(from: Cell, animate: boolean): Promise<void> {
+    const to = this.character.cell;
+    if (!animate || !this.sprite.visible) {
+      this.sprite.setPosition(
+        CharacterView.toWorldX(to),
+        CharacterView.toWorldY(to)
+      );
+      return Promise.resolve();
+    }
+    this.sprite.setPosition(
+      CharacterView.toWorldX(from),
+      CharacterView.toWorldY(from)
+    );
+    return this.tween({
+      x: CharacterView.toWorldX(to),
+      y: CharacterView.toWorldY(to),
+      duration: walkDuration,
+    });
+  }
+
+  /**
+   * Animates lunging towards @param target and back.
+   */
+  private animateAttack(target: PhysicalUnit): Promise<void> {
+    if (!this.sprite.visible) {
+      return Promise.resolve();
+    }
+    const { x, y } = this.sprite;
+    return this.tween({
+      x: x + (CharacterView.toWorldX(target.cell) - x) / 2,
+      y: y + (CharacterView.toWorldY(target.cell) - y) / 2,
+      duration: attackDuration,
+      yoyo: true,
+    });
+  }
+
+  /**
+   * Animates firing a laser at @param target.
+   */
+  private animateShot(target: PhysicalUnit): Promise<void> {
+    const { x, y } = this.character;
+    const laser = this.scene.add.sprite(this.sprite.x, this.sprite.y, 'laser');
+    laser.setDepth(this.sprite.depth + 1);
+    laser.setRotation(Math.atan2(target.y - y, target.x - x) + Math.PI / 2);
+    const distance = Math.max(Math.abs(target.x - x), Math.abs(target.y - y));
+    return new Promise<void>(resolve => {
+      this.scene.tweens.add({
+        targets: laser,
+        x: CharacterView.toWorldX(target.cell),
+        y: CharacterView.toWorldY(target.cell),
+        duration: distance * projectileDuration,
+        onComplete: () => {
+          laser.destroy();
+          resolve();
+        },
+      });
+    });
+  }
+
+  /**
+   * Shows @param text floating up from the unit, e.g. damage dealt.
+   */
+  private animateText(text: string): Promise<void> {
+    if (!this.sprite.visible) {
+      return Promise.resolve();
+    }
+    const label = this.scene.add.text(this.sprite.x, this.sprite.y, text);
+    label.setFontSize(12);
+    label.setDepth(this.sprite.depth + 1);
+    label.setX(label.x - label.width / 2);
+    return new Promise<void>(resolve => {
+      this.scene.tweens.add({
+        targets: label,
+        y: label.y - TILE_SIZE,
+        alpha: 0,
+        duration: textDuration,
+        onComplete: () => {
+          label.destroy();
+          resolve();
+        },
+      });
+    });
+  }
+
+  /**
+   * Animates flinching from being hit.
+   */
+  private animateHit(): Promise<void> {
+    if (!this.sprite.visible) {
+      return Promise.resolve();
+    }
+    this.sprite.setTint(0xff0000);
+    return this.tween({
+      alpha: 0.25,
+      duration: attackDuration,
+      yoyo: true,
+    }).then(() => this.tint(this.character.control));
+  }
+
+  /**
+   * Shows the character cowering in fear (or not) based on @param cowering.
+   */
+  private cower(cowering: boolean): void {
+    const size = cowering ? TILE_SIZE * cowerScale : TILE_SIZE;
+    this.sprite.setDisplaySize(size, size);
+  }
+
+  private tint(control: Control): void {
+    if (control === Control.Neutral) {
+      this.sprite.setTint(neutralTint);
+    } else {
+      this.sprite.clearTint();
+    }
+  }
+
+  /**
+   * Tweens the sprite with the given @param config.
+   *
+   * The returned @see Promise completes when the tween does.
+   */
+  private tween(config: object): Promise<void> {
+    return new Promise<void>(resolve => {
+      this.scene.tweens.add({
+        ...config,
+        targets: this.sprite,
+        onComplete: () => resolve(),
+      });
+    });
+  }
+
+  private static toWorldX(cell: Cell): number {
+    return (cell.x + 0.5) * TILE_SIZE;
+  }
+
+  private static toWorldY(cell: Cell): number {
+    return (cell.y + 0.5) * TILE_SIZE;
+  }
+}
@@ -0,0 +1,118 @@
+import { Character } from './unit';
+
+/**
+ * Something that happens to the world as a result of dialogue.
+ */
+export type DialogueEffect =
+  | {
+      /**
+       * Heals the speaker by `amount`, or fully if not given.
+       */
+      readonly type: 'heal';
+      readonly amount?: number;
+    }
+  | {
+      /**
+       * Spawns `count` hostiles as close as possible to a cell.
+       */
+      readonly type: 'spawn-hostiles';
+      readonly x: number;
+      readonly y: number;
+      readonly count: number;
+    }
+  | {
+      /**
+       * Opens the @see Door in a cell, if there is one.
+       */
+      readonly type: 'open-door';
+      readonly x: number;
+      readonly y: number;
+    }
+  | {
+      /**
+       * Adds an item to the speaker's inventory.
+       */
+      readonly type: 'give-item';
+      readonly item: string;
+    };
+
+export interface IDialogueChoice {
+  readonly text: string;
+
+  /**
+   * Key of the node shown after this choice, if any.
+   */
+  readonly next?: string;
+  readonly effects?: DialogueEffect[];
+}
+
+/**
+ * A single message of a conversation, as defined in `assets/dialogue.json`.
+ */
+export interface IDialogueNode {
+  readonly text: string;
+  readonly choices?: IDialogueChoice[];
+
+  /**
+   * Fired as soon as the node is shown.
+   */
+  readonly effects?: DialogueEffect[];
+}
+
+/**
+ * Plays conversations, following the choices made through each node.
+ */
+export class Dialogue {
+  /**
+   * @param nodes Every node, by key.
+   * @param applyEffect Called for each effect fired, with the speaker.
+   * @param ask Has the speaker say a node, calling back with the choice made.
+   */
+  constructor(
+    private readonly nodes: { readonly [key: string]: IDialogueNode },
+    private readonly applyEffect: (
+      effect: DialogueEffect,
+      speaker: Character
+    ) => void,
+    private readonly ask: (
+      speaker: Character,
+      text: string,
+      choices: string[],
+      onChoice: (choice: string, index: number) => void
+    ) => void
+  ) {
+    Object.keys(nodes).forEach(key =>
+      (nodes[key].choices || []).forEach(c => {
+        if (c.next !== undefined && !this.has(c.next)) {
+          throw new Error(`Dialogue "${key}" leads to unknown "${c.next}"`);
+        }
+      })
+    );
+  }
+
+  /**
+   * Whether a node with the given @param key exists.
+   */
+  public has(key: string): boolean {
+    return this.nodes.hasOwnProperty(key);
+  }
+
+  /**
+   * Shows the node @param key, spoken by @param speaker.
+   */
+  public start(speaker: Character, key: string): void {
+    if (!this.has(key)) {
+      throw new Error(`Unknown dialogue: "${key}"`);
+    }
+    const node = this.nodes[key];
+    (node.effects || []).forEach(e => this.applyEffect(e, speaker));
+    const choices = node.choices || [];
+    this.ask(speaker, node.text, choices.map(c => c.text), (_, i) => {
+      const choice = choices[i];
+      (choice.effects || []).forEach(e => this.applyEffect(e, speaker));
+      if (choice.next !== undefined) {
+        this.start(speaker, choice.next);
+      }
+    });
+  }
+}
@@ -0,0 +1,92 @@
+import { Cell } from './grid';
+
+/**
+ * Serializable state of a @see Door, as defined in the object layer.
+ */
+export interface IDoorState {
+  readonly name: string;
+  readonly x: number;
+  readonly y: number;
+  readonly open: boolean;
+
+  /**
+   * Whether the door can only be opened or closed by a @see ISwitch.
+   */
+  readonly sealed: boolean;
+
+  /**
+   * Action points spent opening or closing the door by hand.
+   */
+  readonly actionPoints: number;
+
+  /**
+   * Item needed to open or close the door by hand, or an empty string for
+   * none.
+   */
+  readonly requiresItem: string;
+  readonly openTile: number;
+  readonly closedTile: number;
+}
+
+/**
+ * Opens and closes every @see Door named by @see targets.
+ */
+export interface ISwitch {
+  readonly x: number;
+  readonly y: number;
+  readonly targets: string[];
+  readonly actionPoints: number;
+}
+
+/**
+ * A cell of the ground layer that blocks movement and sight while closed.
+ *
+ * Doors set the collision of their cell, so anything reading
+ * @see Cell.collides (pathing, AI and line of sight) sees the change
+ * immediately. Views show @see IDoorState.openTile or
+ * @see IDoorState.closedTile to match.
+ */
+export class Door {
+  private mOpen: boolean;
+
+  constructor(public readonly cell: Cell, public readonly data: IDoorState) {
+    this.mOpen = data.open;
+    this.cell.setCollides(!this.mOpen);
+  }
+
+  public get name(): string {
+    return this.data.name;
+  }
+
+  public get isOpen(): boolean {
+    return this.mOpen;
+  }
+
+  /**
+   * Opens or closes the door.
+   *
+   * Returns false, leaving the door open, if a unit is standing in it.
+   */
+  public setOpen(open: boolean): boolean {
+    if (!open && this.mOpen && !this.cell.isPathable) {
+      return false;
+    }
+    this.mOpen = open;
+    this.cell.setCollides(!open);
+    return true;
+  }
+
+  /**
+   * Returns the serializable state of this door.
+   */
+  public toSnapshot(): IDoorState {
+    return { ...this.data, open: this.mOpen };
+  }
+
+  /**
+   * Index of the tile shown in the cell of the door.
+   */
+  public get tile(): number {
+    return this.mOpen ? this.data.openTile : this.data.closedTile;
+  }
+}
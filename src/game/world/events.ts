@@ -0,0 +1,50 @@
+/**
+ * Handles an event, optionally returning a @see Promise that delays the
+ * emitter until it completes (e.g. an animation).
+ */
+export type Listener<T> = (payload: T) => Promise<void> | void;
+
+/**
+ * A typed event emitter for the simulation, mapping each event name of
+ * @param TEvents to the type of its payload.
+ *
+ * Unlike Phaser's emitter, listeners may be asynchronous, and @see emit waits
+ * for all of them; with no listeners (e.g. when run headless) it resolves
+ * immediately.
+ */
+export class Emitter<TEvents> {
+  private readonly listeners: {
+    [K in keyof TEvents]?: Array<Listener<TEvents[K]>>
+  } = {};
+
+  /**
+   * Calls @param listener whenever @param event is emitted.
+   */
+  public on<K extends keyof TEvents>(
+    event: K,
+    listener: Listener<TEvents[K]>
+  ): this {
+    const listeners = this.listeners[event];
+    if (listeners === undefined) {
+      this.listeners[event] = [listener];
+    } else {
+      listeners.push(listener);
+    }
+    return this;
+  }
+
+  /**
+   * Calls every listener of @param event with @param payload.
+   *
+   * The returned @see Promise completes once every listener has.
+   */
+  public async emit<K extends keyof TEvents>(
+    event: K,
+    payload: TEvents[K]
+  ): Promise<void> {
+    const listeners = this.listeners[event];
+    if (listeners !== undefined) {
+      await Promise.all(listeners.map(l => l(payload)));
+    }
+  }
+}
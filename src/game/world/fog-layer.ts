@@ -0,0 +1,47 @@
+import * as phaser from 'phaser';
+import { UILayerTile } from './ui-layer';
+
+/**
+ * Covers the map with darkness except for what the crew can currently see.
+ *
+ * Cells that have been seen before, but are no longer in sight, are only
+ * partially darkened so the layout of explored areas is remembered.
+ */
+export class FogLayer {
+  private static readonly exploredAlpha = 0.6;
+
+  private readonly mLayer: phaser.Tilemaps.DynamicTilemapLayer;
+  private visible = new Set<number>();
+
+  constructor(private readonly parent: phaser.Tilemaps.Tilemap) {
+    const tilemap = parent.scene.make.tilemap();
+    const tileset = tilemap.addTilesetImage('colors', 'colors');
+    this.mLayer = parent.createBlankDynamicLayer('FogLayer', tileset);
+    this.mLayer.fill(UILayerTile.BLACK, 0, 0, parent.width, parent.height);
+    this.mLayer.depth = 5;
+  }
+
+  /**
+   * Reveals the given @param cells, and fogs any that were previously visible.
+   */
+  public update(cells: Iterable<{ x: number; y: number }>): void {
+    const visible = new Set<number>();
+    for (const { x, y } of cells) {
+      visible.add(this.key(x, y));
+      this.mLayer.removeTileAt(x, y);
+    }
+    this.visible.forEach(key => {
+      if (!visible.has(key)) {
+        const x = key % this.parent.width;
+        const y = Math.floor(key / this.parent.width);
+        this.mLayer.putTileAt(UILayerTile.BLACK, x, y).alpha =
+          FogLayer.exploredAlpha;
+      }
+    });
+    this.visible = visible;
+  }
+
+  private key(x: number, y: number): number {
+    return x + y * this.parent.width;
+  }
+}
@@ -1,22 +1,36 @@
-import * as phaser from 'phaser';
 import { PhysicalUnit, Control } from './unit';
+import { Pathfinder } from './pathfinding';
 
 /**
- * The Cell class defines an immutable grid cell.
+ * The Cell class defines a grid cell at a fixed location.
  */
 export class Cell {
   private readonly mUnits: PhysicalUnit[] = [];
 
   /**
-   * @param collides Returns whether this cell blocks movement.
+   * @param mCollides Whether this cell blocks movement (and sight).
    */
   constructor(
     private readonly grid: Grid,
-    public readonly collides: () => boolean,
+    private mCollides: boolean,
     public readonly x: number,
     public readonly y: number
   ) {}
 
+  /**
+   * Returns whether this cell blocks movement and sight.
+   */
+  public collides(): boolean {
+    return this.mCollides;
+  }
+
+  /**
+   * Makes this cell block movement and sight, or not, e.g. as a door closes.
+   */
+  public setCollides(collides: boolean): void {
+    this.mCollides = collides;
+  }
+
   /**
    * Adds @param unit to the cell if it does not already exist.
    *
@@ -58,8 +72,6 @@ export class Cell {
     return this.mUnits;
   }
 
-  // TODO: Implement this function as "getCellsInWalkingDistance" and use it in
-  // world.ts getUnitActions.
   /**
    * Enumerable collection of cells within a distance @param fill of current.
    */
@@ -67,11 +79,22 @@ export class Cell {
     const results = [];
     for (let i = -fill; i <= fill; i += 1) {
       for (let j = -fill; j <= fill; j += 1) {
-        results.push(this.grid.get(this.x + i, this.y + j));
+        if (this.grid.isOnGrid(this.x + i, this.y + j)) {
+          results.push(this.grid.get(this.x + i, this.y + j));
+        }
       }
     }
-    return results.filter(r => r !== null);
+    return results;
   }
+
+  /**
+   * Cells that can be walked to in at most @param steps, mapped to the
+   * shortest path (excluding this cell) that reaches each of them.
+   */
+  public getCellsInWalkingDistance(steps: number): Map<Cell, Cell[]> {
+    return new Pathfinder(this.grid).reachableCells(this, steps);
+  }
+
   /**
    * Whether this cell can handle characters moving into it.
    */
@@ -80,13 +103,16 @@ export class Cell {
   }
 
   /**
-   * Returns the units that are attackable by the given @param attackingUnit,
-   * which may be none.
+   * Returns the living units that are attackable by the given
+   * @param attackingUnit, which may be none.
    */
   public getAttackableUnits(
     attackingUnit: PhysicalUnit
   ): Iterable<PhysicalUnit> {
     return this.mUnits.filter(attackedUnit => {
+      if (attackedUnit.isDead) {
+        return false;
+      }
       // Neutral can't attack or be attacked.
       if (
         attackingUnit.control === Control.Neutral ||
@@ -114,22 +140,21 @@ export class Grid {
   public readonly height: number;
   private readonly cells: Cell[];
 
-  // Constructs a new Grid from the given tilemap.
+  /**
+   * @param collides Returns whether the cell at the given coordinates
+   * initially blocks movement, e.g. based on the tile of the ground layer.
+   */
   constructor(
-    tilemap: phaser.Tilemaps.Tilemap,
-    groundLayer: phaser.Tilemaps.DynamicTilemapLayer
+    width: number,
+    height: number,
+    collides: (x: number, y: number) => boolean
   ) {
-    this.width = tilemap.width;
-    this.height = tilemap.height;
+    this.width = width;
+    this.height = height;
     this.cells = new Array<Cell>(this.width * this.height);
     for (let y: number = 0; y < this.height; y++) {
       for (let x: number = 0; x < this.width; x++) {
-        const collidesFn = () => {
-          const tile = groundLayer.getTileAt(x, y);
-          // Consider blank tiles collidable.
-          return tile === null || tile.collides;
-        };
-        this.set(x, y, new Cell(this, collidesFn, x, y));
+        this.set(x, y, new Cell(this, collides(x, y), x, y));
       }
     }
   }
@@ -0,0 +1,66 @@
+/**
+ * What happens when an item is used.
+ *
+ * Keys can't be used directly; they are checked for by doors and grid events.
+ */
+export type ItemKind = 'medkit' | 'key' | 'weapon' | 'ammo';
+
+/**
+ * Item attributes, as defined in `assets/items.json`.
+ */
+export interface IItemData {
+  readonly name: string;
+  readonly kind: ItemKind;
+
+  /**
+   * Hit points restored by a medkit.
+   */
+  readonly heal?: number;
+
+  /**
+   * Key of the weapon, in `assets/weapons.json`, equipped by using the item.
+   */
+  readonly weapon?: string;
+
+  /**
+   * Shots loaded into the user's ranged weapon.
+   */
+  readonly ammo?: number;
+
+  /**
+   * Action points spent using the item.
+   */
+  readonly actionPoints?: number;
+}
+
+/**
+ * An item lying on the map, waiting to be picked up.
+ */
+export interface IPickup {
+  readonly x: number;
+  readonly y: number;
+
+  /**
+   * Key of the item, in `assets/items.json`.
+   */
+  readonly item: string;
+}
+
+/**
+ * Something a @see Character can carry, and possibly use.
+ */
+export class Item {
+  constructor(public readonly key: string, public readonly data: IItemData) {}
+
+  public get name(): string {
+    return this.data.name;
+  }
+
+  public get actionPoints(): number {
+    return this.data.actionPoints || 0;
+  }
+
+  public get isUsable(): boolean {
+    return this.data.kind !== 'key';
+  }
+}
@@ -1,103 +1,297 @@
 // This file parses JSON-like data.
-//
-// tslint:disable:no-any
-
-import * as phaser from 'phaser';
 
 import { Character, Control, Statistics } from './unit';
-import { UNIT_LAYER_NAME } from '../constants';
-import { Grid } from './grid';
+import { Cell, Grid } from './grid';
+import { Weapon } from './weapon';
+import { IDoorState, ISwitch } from './door';
+import { IPickup } from './item';
+import { IGameData } from './simulation';
+import { ISpawnerState } from './spawner';
+import {
+  GridEventType,
+  IDoorObject,
+  ISpawnerObject,
+  IGridEventTrigger,
+  IMapData,
+  MapDataError,
+  MapObject,
+  MapSchema,
+} from './schema';
 
 export class ObjectDataParser {
   constructor(
     private readonly events: {
+      readonly newCharacterId: () => number;
       readonly spawnPlayer: (character: Character) => void;
-      readonly spawnHostile: (character: Character) => void;
+      readonly spawnHostile: (character: Character, patrol: Cell[]) => void;
+      readonly spawnNeutral: (character: Character) => void;
       readonly addGridEvent: (event: IGridEvent) => void;
+      readonly addDoor: (door: IDoorState) => void;
+      readonly addSwitch: (switchData: ISwitch) => void;
+      readonly addPickup: (pickup: IPickup) => void;
+      readonly addSpawner: (spawner: ISpawnerState) => void;
     }
   ) {}
 
-  public parse(grid: Grid, tilemap: phaser.Tilemaps.Tilemap): void {
-    tilemap.getObjectLayer(UNIT_LAYER_NAME).objects.forEach(o => {
-      const data = (o as any) as IMapData;
-      const props = ObjectDataParser.parseProperties(data.properties);
-      const { x, y } = ObjectDataParser.convertWorldXY(tilemap, data);
-      switch (props.get('object-type')) {
+  /**
+   * Spawns @param mapObjects, from the unit layer of a map with tiles of
+   * @param tileSize pixels, onto @param grid.
+   *
+   * Every object is validated before any is spawned, including references to
+   * the weapons, items, dialogue and sprites of @param data; a
+   * @see MapDataError is thrown for the first invalid object.
+   */
+  public parse(
+    grid: Grid,
+    mapObjects: IMapData[],
+    data: IGameData,
+    tileSize: number
+  ): void {
+    const objects = mapObjects.map(mapData => {
+      const object = MapSchema.parseObject(mapData);
+      const { x, y } = ObjectDataParser.convertWorldXY(tileSize, mapData);
+      if (object.type !== 'patrol-route' && !grid.isOnGrid(x, y)) {
+        throw new MapDataError(mapData.id, `(${x}, ${y}) is outside the map`);
+      }
+      return { id: mapData.id, name: mapData.name, cell: { x, y }, object };
+    });
+    if (!objects.some(o => o.object.type === 'pc-spawn')) {
+      throw new MapDataError(null, 'there should be at least one "pc-spawn"');
+    }
+    // Objects may refer to the position of others by name.
+    const positions = new Map(
+      objects.map(o => [o.name, o.cell] as [string, { x: number; y: number }])
+    );
+    const doorNames = objects
+      .map(o => o.object)
+      .filter(o => o.type === 'door')
+      .map(o => (o as IDoorObject).name);
+    const spawnerNames = objects
+      .map(o => o.object)
+      .filter(o => o.type === 'spawner')
+      .map(o => (o as ISpawnerObject).name);
+    const patrols = ObjectDataParser.parsePatrolRoutes(grid, tileSize, objects);
+    const { weapons, items, dialogue, sprites } = data;
+    // An empty key means no weapon.
+    const weapon = (id: number, property: string, key: string) => {
+      if (key === '') {
+        return null;
+      }
+      if (weapons[key] === undefined) {
+        throw new MapDataError(
+          id,
+          `property "${property}" names unknown weapon "${key}"`
+        );
+      }
+      return new Weapon(weapons[key]);
+    };
+    const spawns = objects.map(({ id, cell, object }) => {
+      const at = grid.get(cell.x, cell.y);
+      switch (object.type) {
         case 'pc-spawn':
-          this.events.spawnPlayer(
-            Character.create(
+        case 'npc-spawn':
+          if (sprites[object.sprite] === undefined) {
+            throw new MapDataError(
+              id,
+              `name is unknown sprite "${object.sprite}"`
+            );
+          }
+          const melee = weapon(id, 'melee', object.melee) || Weapon.unarmed;
+          const ranged = weapon(id, 'ranged', object.ranged);
+          return () => {
+            const character = Character.create(
+              this.events.newCharacterId(),
               grid,
-              grid.get(x, y),
-              tilemap.scene,
-              data.name as any,
-              Control.Friendly,
-              props.get('name'),
-              new Statistics(props.get('hp'), props.get('ap'))
-            )
-          );
-          break;
+              at,
+              object.sprite,
+              object.type === 'pc-spawn' ? Control.Friendly : Control.Neutral,
+              object.name,
+              new Statistics(object.hp, object.ap),
+              melee,
+              ranged
+            );
+            if (object.type === 'pc-spawn') {
+              this.events.spawnPlayer(character);
+            } else {
+              this.events.spawnNeutral(character);
+            }
+          };
         case 'hostile-spawn':
-          this.events.spawnHostile(
-            Character.create(
-              grid,
-              grid.get(x, y),
-              tilemap.scene,
-              'bad-1',
-              Control.Hostile,
-              'Zombie',
-              new Statistics(2, 4)
-            )
-          );
-          break;
+          const claws = weapon(id, 'melee', object.melee) || Weapon.unarmed;
+          const patrol =
+            object.patrol === null ? [] : patrols.get(object.patrol);
+          if (patrol === undefined) {
+            throw new MapDataError(
+              id,
+              `property "patrol" names unknown patrol route "${object.patrol}"`
+            );
+          }
+          return () =>
+            this.events.spawnHostile(
+              Character.create(
+                this.events.newCharacterId(),
+                grid,
+                at,
+                'bad-1',
+                Control.Hostile,
+                'Zombie',
+                new Statistics(object.hp, object.ap),
+                claws
+              ),
+              patrol
+            );
         case 'grid-event':
-          this.events.addGridEvent({
-            x,
-            y,
-            type: props.get('grid-event-type'),
-            text: props.get('text'),
-          });
-          break;
+          if (
+            object.eventType === 'dialogue' &&
+            !dialogue.hasOwnProperty(object.dialogue)
+          ) {
+            throw new MapDataError(
+              id,
+              `property "dialogue" names unknown dialogue "${object.dialogue}"`
+            );
+          }
+          if (
+            object.eventType === 'activate-spawner' &&
+            spawnerNames.indexOf(object.spawner) === -1
+          ) {
+            throw new MapDataError(
+              id,
+              `property "spawner" names unknown spawner "${object.spawner}"`
+            );
+          }
+          const spawnAt =
+            object.spawnAt === '' ? cell : positions.get(object.spawnAt);
+          if (spawnAt === undefined) {
+            throw new MapDataError(
+              id,
+              `property "spawn-at" names unknown object "${object.spawnAt}"`
+            );
+          }
+          return () =>
+            this.events.addGridEvent({
+              ...cell,
+              type: object.eventType,
+              text: object.text,
+              dialogue: object.dialogue,
+              spawn: { ...spawnAt, count: object.count },
+              damage: object.damage,
+              spawner: object.spawner,
+              trigger: object.trigger,
+              triggeredBy: [],
+            });
+        case 'door':
+          const { type, ...door } = object;
+          return () => this.events.addDoor({ ...cell, ...door });
+        case 'switch':
+          const unknown = object.targets.find(t => doorNames.indexOf(t) === -1);
+          if (unknown !== undefined) {
+            throw new MapDataError(
+              id,
+              `property "targets" names unknown door "${unknown}"`
+            );
+          }
+          return () =>
+            this.events.addSwitch({
+              ...cell,
+              targets: object.targets,
+              actionPoints: object.actionPoints,
+            });
+        case 'item':
+          if (items[object.item] === undefined) {
+            throw new MapDataError(
+              id,
+              `property "item" names unknown item "${object.item}"`
+            );
+          }
+          return () => this.events.addPickup({ ...cell, item: object.item });
+        case 'spawner':
+          return () =>
+            this.events.addSpawner({
+              ...cell,
+              name: object.name,
+              active: object.active,
+              every: object.every,
+              count: object.count,
+              growth: object.growth,
+              waves: object.waves,
+              wavesSpawned: 0,
+              nextTurn: object.firstTurn,
+            });
+        default:
+          return () => undefined;
+      }
+    });
+    spawns.forEach(spawn => spawn());
+  }
+
+  /**
+   * Returns the cells of each patrol route, keyed by object name.
+   *
+   * Hostiles reference these by name with their `patrol` property. Throws a
+   * @see MapDataError if any point is outside the map.
+   */
+  private static parsePatrolRoutes(
+    grid: Grid,
+    tileSize: number,
+    objects: Array<{ id: number; object: MapObject }>
+  ): Map<string, Cell[]> {
+    const result = new Map<string, Cell[]>();
+    objects.forEach(({ id, object }) => {
+      if (object.type === 'patrol-route') {
+        result.set(
+          object.name,
+          object.points.map(p => {
+            const x = Math.floor(p.x / tileSize);
+            const y = Math.floor(p.y / tileSize);
+            if (!grid.isOnGrid(x, y)) {
+              throw new MapDataError(
+                id,
+                `patrol point (${x}, ${y}) is outside the map`
+              );
+            }
+            return grid.get(x, y);
+          })
+        );
       }
     });
+    return result;
   }
 
   private static convertWorldXY(
-    tilemap: phaser.Tilemaps.Tilemap,
+    tileSize: number,
     data: IMapData
   ): {
     readonly x: number;
     readonly y: number;
   } {
     return {
-      x: tilemap.worldToTileX(data.x - data.width / 2),
-      y: tilemap.worldToTileY(data.y - data.width / 2),
+      x: Math.floor((data.x - data.width / 2) / tileSize),
+      y: Math.floor((data.y - data.width / 2) / tileSize),
     };
   }
-
-  private static parseProperties(
-    properties: ReadonlyArray<{ name: string; type: string; value: any }>
-  ): Map<string, any> {
-    const result = new Map<string, any>();
-    properties.forEach(p => result.set(p.name, p.value));
-    return result;
-  }
-}
-
-interface IMapData {
-  readonly name: string;
-  readonly x: number;
-  readonly y: number;
-  readonly width: number;
-  readonly properties: ReadonlyArray<{
-    name: string;
-    type: string;
-    value: any;
-  }>;
 }
 
 export interface IGridEvent {
   readonly x: number;
   readonly y: number;
-  readonly type: string;
+  readonly type: GridEventType;
   readonly text: string;
+  readonly dialogue: string;
+
+  /**
+   * Where, and how many, hostiles are spawned by `spawn-hostiles` events.
+   */
+  readonly spawn: {
+    readonly x: number;
+    readonly y: number;
+    readonly count: number;
+  };
+  readonly damage: number;
+  readonly spawner: string;
+  readonly trigger: IGridEventTrigger;
+
+  /**
+   * IDs of the characters that have triggered the event so far.
+   */
+  readonly triggeredBy: number[];
 }
@@ -0,0 +1,156 @@
+import { Cell, Grid } from './grid';
+
+/**
+ * Finds routes across a @see Grid.
+ *
+ * Units may step onto any of the 8 surrounding cells, and every step costs the
+ * same (a single action point), so distances are measured in steps.
+ */
+export class Pathfinder {
+  /**
+   * @param isPassable Returns whether a unit may step into the given cell.
+   */
+  constructor(
+    private readonly grid: Grid,
+    private readonly isPassable: (cell: Cell) => boolean = c => c.isPathable
+  ) {}
+
+  /**
+   * Returns the shortest path from @param from to @param to using A*, or null
+   * if there is no path within @param maxSteps.
+   *
+   * The path excludes @param from and includes @param to. The destination
+   * must itself be passable; to path next to an occupied cell, see
+   * @see findPathAdjacentTo.
+   */
+  public findPath(
+    from: Cell,
+    to: Cell,
+    maxSteps = Number.MAX_SAFE_INTEGER
+  ): Cell[] | null {
+    return this.search(from, c => c === to, c => Pathfinder.distance(c, to), {
+      maxSteps,
+    });
+  }
+
+  /**
+   * Returns the shortest path from @param from to any cell adjacent to
+   * @param to, or null if there is no path within @param maxSteps.
+   *
+   * Returns an empty path if @param from is already adjacent.
+   */
+  public findPathAdjacentTo(
+    from: Cell,
+    to: Cell,
+    maxSteps = Number.MAX_SAFE_INTEGER
+  ): Cell[] | null {
+    return this.search(
+      from,
+      c => Pathfinder.distance(c, to) === 1,
+      c => Math.max(Pathfinder.distance(c, to) - 1, 0),
+      { maxSteps }
+    );
+  }
+
+  /**
+   * Returns every cell reachable from @param from in at most @param maxSteps,
+   * mapped to the shortest path that reaches it (excluding @param from).
+   */
+  public reachableCells(from: Cell, maxSteps: number): Map<Cell, Cell[]> {
+    const previous = new Map<Cell, Cell | null>([[from, null]]);
+    let frontier = [from];
+    for (let step = 0; step < maxSteps && frontier.length > 0; step++) {
+      const next: Cell[] = [];
+      for (const cell of frontier) {
+        for (const neighbour of this.neighbours(cell)) {
+          if (!previous.has(neighbour)) {
+            previous.set(neighbour, cell);
+            next.push(neighbour);
+          }
+        }
+      }
+      frontier = next;
+    }
+    const results = new Map<Cell, Cell[]>();
+    previous.forEach((_, cell) => {
+      if (cell !== from) {
+        results.set(cell, Pathfinder.unwind(previous, cell));
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Number of steps between @param a and @param b, ignoring obstacles.
+   */
+  public static distance(a: Cell, b: Cell): number {
+    return Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y));
+  }
+
+  private search(
+    from: Cell,
+    isGoal: (cell: Cell) => boolean,
+    heuristic: (cell: Cell) => number,
+    options: { maxSteps: number }
+  ): Cell[] | null {
+    const previous = new Map<Cell, Cell | null>([[from, null]]);
+    const steps = new Map<Cell, number>([[from, 0]]);
+    const open = [from];
+    const estimate = (c: Cell) => steps.get(c)! + heuristic(c);
+    while (open.length > 0) {
+      // The grid is small, so a linear scan is cheaper than a priority queue.
+      let best = 0;
+      for (let i = 1; i < open.length; i++) {
+        if (estimate(open[i]) < estimate(open[best])) {
+          best = i;
+        }
+      }
+      const current = open.splice(best, 1)[0];
+      if (isGoal(current)) {
+        return Pathfinder.unwind(previous, current);
+      }
+      const nextSteps = steps.get(current)! + 1;
+      if (nextSteps > options.maxSteps) {
+        continue;
+      }
+      for (const neighbour of this.neighbours(current)) {
+        const known = steps.get(neighbour);
+        if (known === undefined || nextSteps < known) {
+          if (known === undefined) {
+            open.push(neighbour);
+          }
+          steps.set(neighbour, nextSteps);
+          previous.set(neighbour, current);
+        }
+      }
+    }
+    return null;
+  }
+
+  private neighbours(cell: Cell): Cell[] {
+    const results: Cell[] = [];
+    for (let i = -1; i <= 1; i++) {
+      for (let j = -1; j <= 1; j++) {
+        if (i === 0 && j === 0) {
+          continue;
+        }
+        const x = cell.x + i;
+        const y = cell.y + j;
+        if (this.grid.isOnGrid(x, y) && this.isPassable(this.grid.get(x, y))) {
+          results.push(this.grid.get(x, y));
+        }
+      }
+    }
+    return results;
+  }
+
+  private static unwind(previous: Map<Cell, Cell | null>, to: Cell): Cell[] {
+    const path: Cell[] = [];
+    let current: Cell | null = to;
+    while (current !== null && previous.get(current) !== null) {
+      path.unshift(current);
+      current = previous.get(current)!;
+    }
+    return path;
+  }
+}
@@ -0,0 +1,240 @@
+import { ICharacterSnapshot, IWorldSnapshot } from './snapshot';
+import { Simulation } from './simulation';
+import { ICampaignTotals, noCampaignTotals } from '../campaign';
+
+/**
+ * Incremented whenever @see IReplay, or the encoding of commands, changes
+ * incompatibly.
+ */
+export const REPLAY_VERSION = 4;
+
+/**
+ * Something the player does to a @see Simulation. Everything that happens in
+ * a game follows from its commands and random seed.
+ */
+export type Command =
+  | {
+      /**
+       * Selects the crew member with the ID `id`.
+       */
+      readonly type: 'select';
+      readonly id: number;
+    }
+  | {
+      /**
+       * Performs the action of the selected crew member at a cell.
+       */
+      readonly type: 'act';
+      readonly x: number;
+      readonly y: number;
+    }
+  | {
+      /**
+       * Uses the door or switch of the selected crew member at a cell, even
+       * where acting would walk there instead.
+       */
+      readonly type: 'interact';
+      readonly x: number;
+      readonly y: number;
+    }
+  | { readonly type: 'undo' }
+  | {
+      /**
+       * Uses an item carried by the crew member with the ID `id`.
+       */
+      readonly type: 'use-item';
+      readonly id: number;
+      readonly item: string;
+    }
+  | {
+      /**
+       * Answers a question asked in dialogue, numbered in the order asked.
+       */
+      readonly type: 'answer';
+      readonly question: number;
+      readonly choice: number;
+    }
+  | { readonly type: 'end-turn' };
+
+/**
+ * Everything needed to reproduce a game: how it started, and each command
+ * made since.
+ */
+export interface IReplay {
+  readonly version: number;
+  readonly level: number;
+  readonly seed: number;
+  readonly crew: ICharacterSnapshot[];
+
+  /**
+   * Totals of the campaign levels played before the replayed one.
+   */
+  readonly totals: ICampaignTotals;
+
+  /**
+   * Saved game the replay starts from, if not the start of the level.
+   */
+  readonly snapshot: IWorldSnapshot | null;
+
+  /**
+   * Commands, in the order made, encoded by @see Replay.encode.
+   */
+  readonly commands: string[];
+}
+
+/**
+ * Records and plays back the commands of a @see Simulation.
+ */
+export class Replay {
+  /**
+   * Returns @param command as a short string, e.g. `a12,7` to act on the
+   * cell (12, 7).
+   */
+  public static encode(command: Command): string {
+    switch (command.type) {
+      case 'select':
+        return `s${command.id}`;
+      case 'act':
+        return `a${command.x},${command.y}`;
+      case 'interact':
+        return `n${command.x},${command.y}`;
+      case 'undo':
+        return 'u';
+      case 'use-item':
+        return `i${command.id},${command.item}`;
+      case 'answer':
+        return `c${command.question},${command.choice}`;
+      case 'end-turn':
+        return 'e';
+    }
+  }
+
+  /**
+   * Returns the command encoded as @param text by @see encode.
+   */
+  public static decode(text: string): Command {
+    const args = text.slice(1).split(',');
+    const int = (i: number) => {
+      const value = Number(args[i]);
+      if (!Number.isInteger(value)) {
+        throw new Error(`Invalid replay command: "${text}"`);
+      }
+      return value;
+    };
+    switch (text[0]) {
+      case 's':
+        return { type: 'select', id: int(0) };
+      case 'a':
+        return { type: 'act', x: int(0), y: int(1) };
+      case 'n':
+        return { type: 'interact', x: int(0), y: int(1) };
+      case 'u':
+        return { type: 'undo' };
+      case 'i':
+        return { type: 'use-item', id: int(0), item: args[1] };
+      case 'c':
+        return { type: 'answer', question: int(0), choice: int(1) };
+      case 'e':
+        return { type: 'end-turn' };
+      default:
+        throw new Error(`Invalid replay command: "${text}"`);
+    }
+  }
+
+  /**
+   * Returns the replay saved as @param text, e.g. a file exported from
+   * @see toReplay as JSON.
+   *
+   * Throws an error, with a message to show the player, if it isn't a replay
+   * this version of the game can play.
+   */
+  public static parse(text: string): IReplay {
+    let data: Partial<IReplay> | null;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      throw new Error('This file is not a replay.');
+    }
+    if (
+      data === null ||
+      typeof data !== 'object' ||
+      typeof data.version !== 'number' ||
+      typeof data.level !== 'number' ||
+      typeof data.seed !== 'number' ||
+      !Array.isArray(data.crew) ||
+      typeof data.totals !== 'object' ||
+      data.totals === null ||
+      typeof data.snapshot !== 'object' ||
+      !Array.isArray(data.commands) ||
+      !data.commands.every(c => typeof c === 'string')
+    ) {
+      throw new Error('This file is not a replay.');
+    }
+    if (data.version !== REPLAY_VERSION) {
+      throw new Error(
+        'This replay is from an incompatible version of the game.'
+      );
+    }
+    // Checks every command can be decoded before any is played.
+    data.commands.forEach(Replay.decode);
+    return data as IReplay;
+  }
+
+  /**
+   * Re-executes the commands of @param replay, in order, against
+   * @param simulation, which should be freshly started as described by the
+   * replay.
+   *
+   * The returned @see Promise completes once every command has.
+   */
+  public static async play(
+    simulation: Simulation,
+    replay: IReplay
+  ): Promise<void> {
+    if (replay.version !== REPLAY_VERSION) {
+      throw new Error(
+        `Replay version ${replay.version} can't be played by version ` +
+          `${REPLAY_VERSION}`
+      );
+    }
+    for (const command of replay.commands.map(Replay.decode)) {
+      await simulation.execute(command);
+    }
+  }
+
+  private readonly commands: string[] = [];
+
+  /**
+   * Starts recording each command executed by @param simulation, which
+   * should not have executed any yet.
+   *
+   * @param crew Crew carried over into the level, if any.
+   * @param snapshot Saved game the simulation was started from, if any.
+   * @param totals Totals of the campaign levels played before this one.
+   */
+  constructor(
+    private readonly simulation: Simulation,
+    private readonly crew: ICharacterSnapshot[] = [],
+    private readonly snapshot: IWorldSnapshot | null = null,
+    private readonly totals = noCampaignTotals
+  ) {
+    simulation.events.on('command', command => {
+      this.commands.push(Replay.encode(command));
+    });
+  }
+
+  /**
+   * Returns the replay of every command recorded so far.
+   */
+  public toReplay(): IReplay {
+    return {
+      version: REPLAY_VERSION,
+      level: this.simulation.level,
+      seed: this.simulation.seed,
+      crew: this.crew,
+      totals: this.totals,
+      snapshot: this.snapshot,
+      commands: [...this.commands],
+    };
+  }
+}
@@ -0,0 +1,499 @@
+// This file validates JSON-like data.
+
+import { CharacterSprite } from './unit';
+
+/**
+ * Kinds of @see IGridEvent that can be placed on the map.
+ */
+const gridEventTypes: GridEventType[] = [
+  'dialogue',
+  'speak',
+  'win',
+  'spawn-hostiles',
+  'damage',
+  'activate-spawner',
+];
+
+/**
+ * Kinds of @see IGridEvent that hostiles, as well as crew, may trigger.
+ */
+const anyUnitGridEventTypes: GridEventType[] = ['spawn-hostiles', 'damage'];
+
+/**
+ * Statistics of crew spawned without `hp` or `ap` properties.
+ */
+const defaultCrewHitPoints = 5;
+const defaultCrewActionPoints = 5;
+
+/**
+ * Statistics of hostiles spawned without `hp` or `ap` properties.
+ */
+export const defaultHostileHitPoints = 2;
+export const defaultHostileActionPoints = 4;
+
+/**
+ * Tiles shown for doors without `open-tile` or `closed-tile` properties.
+ */
+const defaultOpenDoorTile = 21;
+const defaultClosedDoorTile = 4;
+
+export type GridEventType =
+  | 'dialogue'
+  | 'speak'
+  | 'win'
+  | 'spawn-hostiles'
+  | 'damage'
+  | 'activate-spawner';
+
+/**
+ * When a grid event fires, as opposed to being ignored.
+ */
+export interface IGridEventTrigger {
+  /**
+   * Whether the event only fires the first time it is triggered.
+   */
+  readonly once: boolean;
+
+  /**
+   * Whether the event only fires the first time each character triggers it.
+   */
+  readonly perCharacter: boolean;
+
+  /**
+   * Item the triggering character must carry, or an empty string for none.
+   */
+  readonly requiresItem: string;
+
+  /**
+   * Whether hostiles trigger the event, as well as crew.
+   */
+  readonly anyUnit: boolean;
+}
+
+/**
+ * An object as stored in the object layer of a Tiled map.
+ */
+export interface IMapData {
+  readonly id: number;
+  readonly name: string;
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly polyline?: ReadonlyArray<{ x: number; y: number }>;
+  readonly properties?: ReadonlyArray<{
+    name: string;
+    type: string;
+    value: {};
+  }>;
+}
+
+/**
+ * A crew member, either playable or waiting to be recruited.
+ */
+export interface ICharacterSpawnObject {
+  readonly type: 'pc-spawn' | 'npc-spawn';
+  readonly sprite: CharacterSprite;
+  readonly name: string;
+  readonly hp: number;
+  readonly ap: number;
+  readonly melee: string;
+
+  /**
+   * Key of the ranged weapon, or an empty string for none.
+   */
+  readonly ranged: string;
+}
+
+export interface IHostileSpawnObject {
+  readonly type: 'hostile-spawn';
+  readonly hp: number;
+  readonly ap: number;
+  readonly melee: string;
+
+  /**
+   * Name of the @see IPatrolRouteObject followed, if any.
+   */
+  readonly patrol: string | null;
+}
+
+export interface IGridEventObject {
+  readonly type: 'grid-event';
+  readonly eventType: GridEventType;
+  readonly text: string;
+
+  /**
+   * Key of the dialogue node started, for `dialogue` events.
+   */
+  readonly dialogue: string;
+
+  /**
+   * Name of the object hostiles are spawned near by `spawn-hostiles` events,
+   * or an empty string for the event itself.
+   */
+  readonly spawnAt: string;
+
+  /**
+   * Hostiles spawned by `spawn-hostiles` events.
+   */
+  readonly count: number;
+
+  /**
+   * Hit points lost by whoever triggers `damage` events.
+   */
+  readonly damage: number;
+
+  /**
+   * Name of the @see ISpawnerObject activated by `activate-spawner` events.
+   */
+  readonly spawner: string;
+  readonly trigger: IGridEventTrigger;
+}
+
+export interface IPatrolRouteObject {
+  readonly type: 'patrol-route';
+  readonly name: string;
+  readonly points: ReadonlyArray<{ x: number; y: number }>;
+}
+
+export interface IDoorObject {
+  readonly type: 'door';
+  readonly name: string;
+  readonly open: boolean;
+  readonly sealed: boolean;
+  readonly actionPoints: number;
+  readonly requiresItem: string;
+  readonly openTile: number;
+  readonly closedTile: number;
+}
+
+export interface ISwitchObject {
+  readonly type: 'switch';
+
+  /**
+   * Names of the @see IDoorObject toggled.
+   */
+  readonly targets: string[];
+  readonly actionPoints: number;
+}
+
+export interface IItemObject {
+  readonly type: 'item';
+
+  /**
+   * Key of the item lying here, in `assets/items.json`.
+   */
+  readonly item: string;
+}
+
+export interface ISpawnerObject {
+  readonly type: 'spawner';
+  readonly name: string;
+  readonly active: boolean;
+  readonly every: number;
+
+  /**
+   * Turn the first wave is spawned on, if the spawner starts active.
+   */
+  readonly firstTurn: number;
+  readonly count: number;
+  readonly growth: number;
+  readonly waves: number;
+}
+
+/**
+ * A validated object of the map, discriminated by its `object-type` property.
+ */
+export type MapObject =
+  | ICharacterSpawnObject
+  | IHostileSpawnObject
+  | IGridEventObject
+  | IPatrolRouteObject
+  | IDoorObject
+  | ISwitchObject
+  | IItemObject
+  | ISpawnerObject;
+
+/**
+ * Thrown when the map, or one of its objects, is missing data or has data of
+ * the wrong type, so that broken maps fail when loaded rather than during
+ * play.
+ */
+export class MapDataError extends Error {
+  /**
+   * @param objectId ID of the invalid object, or null if the problem is with
+   * the map as a whole.
+   */
+  constructor(public readonly objectId: number | null, message: string) {
+    super(
+      objectId === null
+        ? `Map: ${message}`
+        : `Map object ${objectId}: ${message}`
+    );
+  }
+}
+
+/**
+ * Typed access to the custom properties of a single map object.
+ *
+ * Remembers which properties were read, so that any the object doesn't use
+ * (e.g. misspelled ones) can be reported by @see rejectUnread.
+ */
+export class ObjectProperties {
+  private readonly values = new Map<string, {}>();
+  private readonly read = new Set<string>();
+
+  constructor(private readonly data: IMapData) {
+    (data.properties || []).forEach(p => this.values.set(p.name, p.value));
+  }
+
+  /**
+   * Returns the string property @param name, or @param defaultValue if it is
+   * not set. Throws if it is not set and there is no default.
+   */
+  public string(name: string, defaultValue?: string): string {
+    return this.get(
+      name,
+      'string',
+      defaultValue,
+      (value): value is string => typeof value === 'string'
+    );
+  }
+
+  /**
+   * Returns the boolean property @param name, or @param defaultValue if it is
+   * not set.
+   */
+  public boolean(name: string, defaultValue?: boolean): boolean {
+    return this.get(
+      name,
+      'boolean',
+      defaultValue,
+      (value): value is boolean => typeof value === 'boolean'
+    );
+  }
+
+  /**
+   * Returns the whole number property @param name, which must be at least
+   * @param min, or @param defaultValue if it is not set.
+   */
+  public integer(name: string, defaultValue?: number, min = 0): number {
+    const value = this.get(
+      name,
+      'number',
+      defaultValue,
+      (v): v is number => typeof v === 'number'
+    );
+    if (!Number.isInteger(value) || value < min) {
+      throw this.error(name, `a whole number of at least ${min}`, value);
+    }
+    return value;
+  }
+
+  /**
+   * Returns the string property @param name, which must be one of
+   * @param allowed, or @param defaultValue if it is not set.
+   */
+  public oneOf<T extends string>(
+    name: string,
+    allowed: T[],
+    defaultValue?: T
+  ): T {
+    const value = this.string(name, defaultValue);
+    const match = allowed.find(a => a === value);
+    if (match === undefined) {
+      throw this.error(name, `one of ${JSON.stringify(allowed)}`, value);
+    }
+    return match;
+  }
+
+  /**
+   * Returns an error about the property @param name of this object.
+   */
+  public error(name: string, expected: string, actual: {}): MapDataError {
+    return new MapDataError(
+      this.data.id,
+      `property "${name}" should be ${expected}, but is ${JSON.stringify(
+        actual
+      )}`
+    );
+  }
+
+  /**
+   * Throws if any property is set that hasn't been read, which is taken to
+   * be a mistake (e.g. a typo, or a property of another object type).
+   */
+  public rejectUnread(): void {
+    const unread = Array.from(this.values.keys()).find(
+      name => !this.read.has(name)
+    );
+    if (unread !== undefined) {
+      throw new MapDataError(
+        this.data.id,
+        `unknown property "${unread}" for this object type`
+      );
+    }
+  }
+
+  private get<T>(
+    name: string,
+    type: string,
+    defaultValue: T | undefined,
+    isType: (value: {}) => value is T
+  ): T {
+    this.read.add(name);
+    const value = this.values.get(name);
+    if (value === undefined) {
+      if (defaultValue === undefined) {
+        throw new MapDataError(
+          this.data.id,
+          `missing required ${type} property "${name}"`
+        );
+      }
+      return defaultValue;
+    }
+    if (!isType(value)) {
+      throw this.error(name, `a ${type}`, value);
+    }
+    return value;
+  }
+}
+
+/**
+ * Validates the objects of a map against the schema of each `object-type`.
+ */
+export class MapSchema {
+  /**
+   * Returns the validated contents of @param data, or throws a
+   * @see MapDataError describing the first problem found, including any
+   * property its `object-type` doesn't use.
+   */
+  public static parseObject(data: IMapData): MapObject {
+    const props = new ObjectProperties(data);
+    const object = MapSchema.parseProperties(data, props);
+    props.rejectUnread();
+    return object;
+  }
+
+  private static parseProperties(
+    data: IMapData,
+    props: ObjectProperties
+  ): MapObject {
+    const type = props.string('object-type');
+    switch (type) {
+      case 'pc-spawn':
+      case 'npc-spawn':
+        if (typeof data.name !== 'string' || data.name === '') {
+          throw new MapDataError(
+            data.id,
+            `name should be the key of a sprite, but is ${JSON.stringify(
+              data.name
+            )}`
+          );
+        }
+        return {
+          type,
+          sprite: data.name as CharacterSprite,
+          name: props.string('name'),
+          hp: props.integer('hp', defaultCrewHitPoints, 1),
+          ap: props.integer('ap', defaultCrewActionPoints, 1),
+          melee: props.string('melee', 'fists'),
+          ranged: props.string('ranged', type === 'pc-spawn' ? 'laser' : ''),
+        };
+      case 'hostile-spawn':
+        return {
+          type,
+          hp: props.integer('hp', defaultHostileHitPoints, 1),
+          ap: props.integer('ap', defaultHostileActionPoints, 1),
+          melee: props.string('melee', 'claws'),
+          patrol: props.string('patrol', '') || null,
+        };
+      case 'grid-event':
+        const eventType = props.oneOf('grid-event-type', gridEventTypes);
+        const anyUnit = props.oneOf('trigger', ['crew', 'any'], 'crew');
+        if (
+          anyUnit === 'any' &&
+          anyUnitGridEventTypes.indexOf(eventType) === -1
+        ) {
+          throw props.error(
+            'trigger',
+            `"crew" for "${eventType}" events`,
+            anyUnit
+          );
+        }
+        return {
+          type,
+          eventType,
+          // Only speaking events need any text.
+          text: props.string('text', eventType === 'speak' ? undefined : ''),
+          dialogue: props.string(
+            'dialogue',
+            eventType === 'dialogue' ? undefined : ''
+          ),
+          spawnAt: props.string('spawn-at', ''),
+          count: props.integer('count', 1, 1),
+          damage: props.integer('damage', 1, 1),
+          spawner: props.string(
+            'spawner',
+            eventType === 'activate-spawner' ? undefined : ''
+          ),
+          trigger: {
+            once: props.boolean('once', false),
+            perCharacter: props.boolean('per-character', false),
+            requiresItem: props.string('requires-item', ''),
+            anyUnit: anyUnit === 'any',
+          },
+        };
+      case 'patrol-route':
+        if (data.polyline === undefined || data.polyline.length === 0) {
+          throw new MapDataError(data.id, `patrol route must be a polyline`);
+        }
+        return {
+          type,
+          name: data.name,
+          points: data.polyline.map(p => ({
+            x: data.x + p.x,
+            y: data.y + p.y,
+          })),
+        };
+      case 'door':
+        return {
+          type,
+          name: data.name,
+          open: props.boolean('open', false),
+          sealed: props.boolean('sealed', false),
+          actionPoints: props.integer('ap', 1),
+          requiresItem: props.string('requires-item', ''),
+          openTile: props.integer('open-tile', defaultOpenDoorTile),
+          closedTile: props.integer('closed-tile', defaultClosedDoorTile),
+        };
+      case 'switch':
+        const targets = props.string('targets');
+        return {
+          type,
+          targets: targets.split(',').map(t => t.trim()),
+          actionPoints: props.integer('ap', 1),
+        };
+      case 'item':
+        return { type, item: props.string('item') };
+      case 'spawner':
+        const every = props.integer('every', 0);
+        return {
+          type,
+          name: data.name,
+          active: props.boolean('active', every > 0),
+          every,
+          firstTurn: props.integer('first-turn', Math.max(every, 1), 1),
+          count: props.integer('count', 1, 1),
+          growth: props.integer('growth', 0),
+          waves: props.integer('waves', 0),
+        };
+      default:
+        throw props.error(
+          'object-type',
+          'one of "pc-spawn", "npc-spawn", "hostile-spawn", "grid-event", ' +
+            '"patrol-route", "door", "switch", "item" or "spawner"',
+          type
+        );
+    }
+  }
+}
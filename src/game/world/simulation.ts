@@ -0,0 +1,1491 @@
+import { Cell, Grid } from './grid';
+import {
+  Character,
+  CharacterSprite,
+  PhysicalUnit,
+  Statistics,
+  UnitAction,
+  UnitActionType,
+  Control,
+} from './unit';
+import { AIController } from './ai-controller';
+import { IGridEvent, ObjectDataParser } from './parser';
+import { Visibility } from './visibility';
+import { Random } from '../random';
+import { Pathfinder } from './pathfinding';
+import { IWeaponData, Weapon } from './weapon';
+import {
+  ICharacterSnapshot,
+  ICorpseSnapshot,
+  IWorldSnapshot,
+  SNAPSHOT_VERSION,
+} from './snapshot';
+import { Dialogue, DialogueEffect, IDialogueNode } from './dialogue';
+import { Door, IDoorState, ISwitch } from './door';
+import { IItemData, IPickup, Item } from './item';
+import { Spawner } from './spawner';
+import { Emitter } from './events';
+import { Command } from './replay';
+import { ICampaignTotals, noCampaignTotals } from '../campaign';
+import {
+  defaultHostileActionPoints,
+  defaultHostileHitPoints,
+  IMapData,
+} from './schema';
+
+/**
+ * Whether the game is still being played, or how it ended.
+ */
+export enum GameState {
+  Playing,
+  Victory,
+  Defeat,
+}
+
+/**
+ * Content shared by every level, as defined in `assets/`.
+ */
+export interface IGameData {
+  readonly weapons: { readonly [key: string]: IWeaponData };
+  readonly items: { readonly [key: string]: IItemData };
+  readonly dialogue: { readonly [key: string]: IDialogueNode };
+
+  /**
+   * Image file of each texture characters can be displayed with, by key.
+   */
+  readonly sprites: { readonly [key: string]: string };
+}
+
+/**
+ * What happens in a @see Simulation, for views to show. Each
+ * @see Character has events of its own.
+ */
+export interface ISimulationEvents {
+  /**
+   * A character entered the map.
+   */
+  readonly spawn: Character;
+
+  /**
+   * A character joined the player's crew, including when first spawned.
+   */
+  readonly join: Character;
+
+  /**
+   * A character left the player's crew, by escaping or dying.
+   */
+  readonly leave: Character;
+
+  /**
+   * A character escaped the level.
+   */
+  readonly evacuate: ICharacterSnapshot;
+
+  /**
+   * The selected character, or the actions it may make, changed.
+   */
+  readonly select: Character;
+
+  /**
+   * The cells the crew can see changed.
+   */
+  readonly sight: Set<Cell>;
+
+  /**
+   * A door was placed, opened or closed.
+   */
+  readonly door: Door;
+  readonly addPickup: IPickup;
+  readonly removePickup: IPickup;
+
+  /**
+   * The player's turn, given by number, started; except for the first.
+   */
+  readonly newTurn: number;
+  readonly gameOver: GameState;
+
+  /**
+   * A command is about to be executed.
+   */
+  readonly command: Command;
+}
+
+/**
+ * A move made by the player, and what is needed to take it back.
+ */
+interface IUndoableMove {
+  readonly character: Character;
+  readonly from: Cell;
+  readonly rotation: number;
+  readonly actionPoints: number;
+}
+
+/**
+ * The rules of the game: the crew, hostiles and everything else on the grid of
+ * a single level, and how they act and interact from turn to turn.
+ *
+ * The simulation doesn't depend on Phaser, so it can be run headless (e.g. in
+ * Node). The @see World displays it by subscribing to @see events.
+ */
+export class Simulation {
+  private static readonly crewSightRange = 8;
+
+  /**
+   * Distance within which neutral crew notice, and cower from, hostiles.
+   */
+  private static readonly neutralFearRange = 5;
+
+  /**
+   * Turns a bitten crew member has to be treated with a medkit before they
+   * turn.
+   */
+  private static readonly infectionTurns = 3;
+
+  /**
+   * Turns before crew killed by hostiles rise again.
+   */
+  private static readonly reanimationTurns = 1;
+
+  private static readonly reanimatedSprites: CharacterSprite[] = [
+    'bad-1',
+    'bad-2',
+    'bad-3',
+  ];
+
+  public readonly events = new Emitter<ISimulationEvents>();
+
+  private readonly visibility: Visibility;
+  private readonly aiController: AIController;
+  private readonly gridEvents: IGridEvent[] = [];
+  private readonly players: Character[] = [];
+  private readonly zombies: Character[] = [];
+  private readonly mEvacuated: ICharacterSnapshot[] = [];
+  private readonly neutrals: Character[] = [];
+  private readonly dialogue: Dialogue;
+  private readonly doors: Door[] = [];
+  private readonly switches: ISwitch[] = [];
+  private readonly corpses: ICorpseSnapshot[] = [];
+  private readonly spawners: Spawner[] = [];
+  private readonly pickups: IPickup[] = [];
+
+  /**
+   * Neutral crew that have asked to join, and are waiting for an answer.
+   */
+  private readonly pendingRecruits = new Set<Character>();
+
+  private mSelectedPlayerId: number = 0;
+  private nextCharacterId: number = 0;
+  private busy = false;
+  private mState = GameState.Playing;
+  private mTurn = 1;
+  private mZombiesKilled = 0;
+  private mCrewTotal = 0;
+  private previousTotals = noCampaignTotals;
+  private visibleCells = new Set<Cell>();
+
+  private mPlayerActions: UnitAction[] = [];
+  private undoHistory: IUndoableMove[] = [];
+
+  /**
+   * Completes once every command executed so far has.
+   */
+  private commands = Promise.resolve();
+
+  /**
+   * Handles the answer to each question asked, by number, until answered.
+   */
+  private readonly questions: Array<((choice: number) => void) | null> = [];
+
+  /**
+   * @param random Source of randomness, seeded for reproducible games.
+   * @param level Index of the campaign level being played.
+   * @param answer Makes the player's answer to a question asked in dialogue;
+   * by default, executes it. Views pass the answer through their own input
+   * handling instead, e.g. to ignore it while a replay plays back.
+   */
+  constructor(
+    public readonly grid: Grid,
+    private readonly data: IGameData,
+    private readonly random: Random,
+    public readonly level: number,
+    private readonly answer?: (command: Command) => void
+  ) {
+    this.dialogue = new Dialogue(
+      data.dialogue,
+      (effect, speaker) => this.applyDialogueEffect(effect, speaker),
+      (speaker, text, choices, onChoice) =>
+        this.ask(speaker, text, choices, onChoice)
+    );
+    this.visibility = new Visibility(this.grid);
+    this.aiController = new AIController(
+      this.grid,
+      this,
+      this.zombies,
+      this.random
+    );
+  }
+
+  /**
+   * Executes @param command once all previously executed commands are done.
+   *
+   * Every command of the player goes through here, in order, so that a game
+   * can be replayed from its commands; see @see Replay.
+   *
+   * The returned @see Promise completes once the command, including any
+   * animation, is complete. Commands that aren't possible are ignored.
+   */
+  public execute(command: Command): Promise<void> {
+    const result = this.commands.then(() => this.run(command));
+    this.commands = result.catch(() => undefined);
+    return result;
+  }
+
+  private async run(command: Command): Promise<void> {
+    this.events.emit('command', command);
+    switch (command.type) {
+      case 'select':
+        if (!this.isLocked && this.getPlayer(command.id) !== undefined) {
+          this.selectPlayer(command.id);
+        }
+        break;
+      case 'act':
+        // Acting on an open door walks through it; closing it takes an
+        // `interact` command.
+        const action = this.mPlayerActions.find(
+          a =>
+            a.position.x === command.x &&
+            a.position.y === command.y &&
+            !(a.type === UnitActionType.Interact && this.isOpenDoor(a.position))
+        );
+        if (action !== undefined) {
+          await this.perform(action);
+        }
+        break;
+      case 'interact':
+        const interaction = this.mPlayerActions.find(
+          a =>
+            a.type === UnitActionType.Interact &&
+            a.position.x === command.x &&
+            a.position.y === command.y
+        );
+        if (interaction !== undefined) {
+          await this.perform(interaction);
+        }
+        break;
+      case 'undo':
+        this.undo();
+        break;
+      case 'use-item':
+        const user = this.getPlayer(command.id);
+        if (user !== undefined) {
+          this.useItem(user, command.item);
+        }
+        break;
+      case 'answer':
+        const answer = this.questions[command.question];
+        if (answer !== undefined && answer !== null) {
+          this.questions[command.question] = null;
+          answer(command.choice);
+        }
+        break;
+      case 'end-turn':
+        await this.endTurn();
+        break;
+    }
+  }
+
+  /**
+   * Has @param speaker say @param text, asking the player to pick one of
+   * @param choices, if any, which is passed on to @param onChoice.
+   *
+   * The answer is made by executing a command, so it is replayed too.
+   */
+  private ask(
+    speaker: Character,
+    text: string,
+    choices: string[],
+    onChoice: (choice: string, index: number) => void
+  ): void {
+    if (choices.length === 0) {
+      speaker.speak(text);
+      return;
+    }
+    const question = this.questions.length;
+    this.questions.push(choice => {
+      if (choice >= 0 && choice < choices.length) {
+        onChoice(choices[choice], choice);
+      }
+    });
+    speaker.speak(text, choices, (_, choice) => {
+      const command: Command = { type: 'answer', question, choice };
+      if (this.answer) {
+        this.answer(command);
+      } else {
+        this.execute(command);
+      }
+    });
+  }
+
+  /**
+   * Performs @param action with the selected player character.
+   *
+   * The returned @see Promise completes once the action, including any
+   * animation, is complete. Actions are ignored while the simulation is
+   * locked.
+   */
+  private async perform(action: UnitAction): Promise<void> {
+    if (this.isLocked) {
+      return;
+    }
+    const pc = this.selectedPlayer;
+    const move: IUndoableMove = {
+      character: pc,
+      from: pc.cell,
+      rotation: pc.rotation,
+      actionPoints: pc.stats.actionPoints,
+    };
+    const hostilesSeen = this.zombies.filter(z => z.seen);
+    let reversible = false;
+    this.busy = true;
+    try {
+      if (action.type === UnitActionType.Move) {
+        // Walk the route one cell (and one AP) at a time, stopping wherever
+        // something is picked up or an event fires.
+        let pickedUp = false;
+        let triggeredEvent = false;
+        await pc.walk(action.path, async () => {
+          pickedUp = this.pickUpItems(pc);
+          triggeredEvent = await this.handleGridEvents(pc);
+          return pickedUp || triggeredEvent;
+        });
+        if (!pc.isDead) {
+          this.offerRecruitment(pc, move.from);
+        }
+        reversible = !pickedUp && !triggeredEvent;
+      } else if (action.type === UnitActionType.Attack) {
+        await this.performAttack(pc, action.targetUnit as Character);
+      } else if (action.type === UnitActionType.RangedAttack) {
+        await this.performRangedAttack(pc, action.targetUnit as Character);
+      } else if (action.type === UnitActionType.Interact) {
+        this.interact(pc, action.position);
+      }
+    } finally {
+      this.busy = false;
+    }
+    if (this.mState !== GameState.Playing) {
+      return;
+    }
+    // Reselect player to refresh actions etc.
+    this.selectPlayer(this.mSelectedPlayerId);
+    // Moves that reveal hostiles can't be taken back either.
+    if (
+      reversible &&
+      this.zombies.every(z => !z.seen || hostilesSeen.indexOf(z) !== -1)
+    ) {
+      this.undoHistory.push(move);
+    } else {
+      this.undoHistory = [];
+    }
+  }
+
+  /**
+   * Whether there is a move this turn that can be undone.
+   */
+  public get canUndo(): boolean {
+    return this.undoHistory.length > 0 && !this.isLocked;
+  }
+
+  /**
+   * Takes back the most recent move made this turn, restoring the position,
+   * facing and action points of the character that made it.
+   *
+   * Moves can't be undone once followed by anything irreversible, such as an
+   * attack or a grid event with dialogue.
+   */
+  private undo(): void {
+    if (!this.canUndo) {
+      return;
+    }
+    const { character, from, rotation, actionPoints } = this.undoHistory.pop()!;
+    character.moveImmediate(from);
+    character.setRotation(rotation);
+    character.stats.restoreBy(actionPoints - character.stats.actionPoints);
+    this.selectPlayer(character.id);
+  }
+
+  /**
+   * Whether an action or turn is being played out.
+   */
+  public get isBusy(): boolean {
+    return this.busy;
+  }
+
+  /**
+   * Whether actions are ignored, i.e. while others are being played out or
+   * once the game is over.
+   */
+  public get isLocked(): boolean {
+    return this.busy || this.mState !== GameState.Playing;
+  }
+
+  /**
+   * Whether the game is still being played, or how it ended.
+   */
+  public get state(): GameState {
+    return this.mState;
+  }
+
+  /**
+   * The current turn, starting from 1.
+   */
+  public get turn(): number {
+    return this.mTurn;
+  }
+
+  /**
+   * Crew that have escaped the level so far.
+   */
+  public get evacuated(): ReadonlyArray<ICharacterSnapshot> {
+    return this.mEvacuated;
+  }
+
+  /**
+   * Crew that have been under the player's control, including the dead.
+   */
+  public get crewTotal(): number {
+    return this.mCrewTotal;
+  }
+
+  public get zombiesKilled(): number {
+    return this.mZombiesKilled;
+  }
+
+  /**
+   * Totals of the campaign so far, including this level.
+   */
+  public get campaignTotals(): ICampaignTotals {
+    return {
+      crewTotal: this.previousTotals.crewTotal + this.mCrewTotal,
+      turns: this.previousTotals.turns + this.mTurn,
+      zombiesKilled: this.previousTotals.zombiesKilled + this.mZombiesKilled,
+    };
+  }
+
+  /**
+   * Seed of all randomness, unless resumed from a snapshot.
+   */
+  public get seed(): number {
+    return this.random.seed;
+  }
+
+  /**
+   * Ends the game with the given @param state.
+   */
+  private endGame(state: GameState.Victory | GameState.Defeat): void {
+    if (this.mState !== GameState.Playing) {
+      return;
+    }
+    this.mState = state;
+    this.events.emit('gameOver', state);
+  }
+
+  /**
+   * Fires the grid events at the location of @param unit that it triggers.
+   *
+   * Returns whether any were fired.
+   */
+  public async handleGridEvents(unit: Character): Promise<boolean> {
+    let triggered = false;
+    for (const ge of this.gridEvents) {
+      if (ge.x !== unit.x || ge.y !== unit.y || !this.triggers(unit, ge)) {
+        continue;
+      }
+      triggered = true;
+      ge.triggeredBy.push(unit.id);
+      switch (ge.type) {
+        case 'dialogue':
+          this.dialogue.start(unit, ge.dialogue);
+          break;
+        case 'speak':
+          unit.speak(ge.text);
+          break;
+        case 'win':
+          this.evacuateFriendly(unit);
+          const successString: string = `I did it! I made it!\n${
+            this.players.length > 0
+              ? `Now to get the rest of the crew out of here!`
+              : `${this.mEvacuated.length - 1} of my crewmates made it too.`
+          }`;
+
+          unit.speak(successString);
+          break;
+        case 'spawn-hostiles':
+          const { x, y, count } = ge.spawn;
+          this.spawnHostilesNear(this.grid.get(x, y), count);
+          break;
+        case 'damage':
+          await this.damage(unit, ge.damage, null);
+          break;
+        case 'activate-spawner':
+          this.spawners
+            .filter(s => s.name === ge.spawner)
+            .forEach(s =>
+              this.spawnHostilesNear(
+                this.grid.get(s.data.x, s.data.y),
+                s.activate(this.mTurn)
+              )
+            );
+          break;
+        default:
+          break;
+      }
+    }
+    return triggered;
+  }
+
+  /**
+   * Whether @param unit stepping onto @param event fires it.
+   */
+  private triggers(unit: Character, event: IGridEvent): boolean {
+    const { once, perCharacter, requiresItem, anyUnit } = event.trigger;
+    if (!anyUnit && unit.control !== Control.Friendly) {
+      return false;
+    }
+    if (once && event.triggeredBy.length > 0) {
+      return false;
+    }
+    if (perCharacter && event.triggeredBy.indexOf(unit.id) !== -1) {
+      return false;
+    }
+    return requiresItem === '' || unit.items.indexOf(requiresItem) !== -1;
+  }
+
+  /**
+   * Fires an @param effect of dialogue spoken by @param speaker.
+   */
+  private applyDialogueEffect(
+    effect: DialogueEffect,
+    speaker: Character
+  ): void {
+    switch (effect.type) {
+      case 'heal':
+        if (effect.amount === undefined) {
+          speaker.stats.healFull();
+        } else {
+          speaker.stats.healBy(effect.amount);
+        }
+        break;
+      case 'spawn-hostiles':
+        this.spawnHostilesNear(this.grid.get(effect.x, effect.y), effect.count);
+        break;
+      case 'open-door':
+        this.doors
+          .filter(d => d.cell.x === effect.x && d.cell.y === effect.y)
+          .forEach(d => this.setDoorOpen(d, true));
+        break;
+      case 'give-item':
+        speaker.items.push(effect.item);
+        speaker.animateText(`+${effect.item}`);
+        break;
+    }
+    if (this.players.indexOf(speaker) !== -1) {
+      this.selectPlayer(speaker.id);
+    }
+  }
+
+  /**
+   * Spawns @param count hostiles on, or as close as possible to, @param origin.
+   */
+  private spawnHostilesNear(origin: Cell, count: number): void {
+    for (let i = 0; i < count; i++) {
+      const cell = origin.isPathable
+        ? origin
+        : Array.from(origin.getCellsInWalkingDistance(count).keys())[0];
+      if (cell === undefined) {
+        return;
+      }
+      const zombie = this.createHostile(cell);
+      this.spawnHostile(zombie);
+      this.touchedHostile(zombie);
+    }
+  }
+
+  /**
+   * Creates a hostile with the default statistics of the map's hostiles.
+   */
+  private createHostile(
+    cell: Cell,
+    sprite: CharacterSprite = 'bad-1',
+    name = 'Zombie'
+  ): Character {
+    return Character.create(
+      this.newCharacterId(),
+      this.grid,
+      cell,
+      sprite,
+      Control.Hostile,
+      name,
+      new Statistics(defaultHostileHitPoints, defaultHostileActionPoints),
+      new Weapon(this.data.weapons.claws)
+    );
+  }
+
+  /**
+   * Returns the item with the given @param key, as defined in
+   * `assets/items.json`.
+   */
+  public getItem(key: string): Item {
+    const items = this.data.items;
+    if (items[key] === undefined) {
+      throw new Error(`Unknown item: "${key}"`);
+    }
+    return new Item(key, items[key]);
+  }
+
+  /**
+   * Places the item described by @param pickup on the map.
+   */
+  public addPickup(pickup: IPickup): void {
+    this.pickups.push(pickup);
+    this.events.emit('addPickup', pickup);
+  }
+
+  /**
+   * Moves any items in the cell of @param pc into its inventory.
+   *
+   * Returns whether any were picked up.
+   */
+  private pickUpItems(pc: Character): boolean {
+    const here = this.pickups.filter(p => p.x === pc.x && p.y === pc.y);
+    here.forEach(p => {
+      this.pickups.splice(this.pickups.indexOf(p), 1);
+      this.events.emit('removePickup', p);
+      pc.items.push(p.item);
+      pc.animateText(`+${this.getItem(p.item).name}`);
+    });
+    return here.length > 0;
+  }
+
+  /**
+   * Uses the item @param key carried by @param character, spending its action
+   * points. Does nothing if the item can't be used right now.
+   */
+  private useItem(character: Character, key: string): void {
+    const item = this.getItem(key);
+    if (
+      this.isLocked ||
+      !item.isUsable ||
+      character.items.indexOf(key) === -1 ||
+      character.stats.actionPoints < item.actionPoints
+    ) {
+      return;
+    }
+    switch (item.data.kind) {
+      case 'medkit':
+        if (
+          character.stats.hitPoints >= character.stats.maxHitPoints &&
+          character.infection === null
+        ) {
+          return;
+        }
+        // Treating the bite in time cures the infection.
+        character.infection = null;
+        if (item.data.heal === undefined) {
+          character.stats.healFull();
+        } else {
+          character.stats.healBy(item.data.heal);
+        }
+        break;
+      case 'weapon':
+        character.equip(new Weapon(this.data.weapons[item.data.weapon!]));
+        break;
+      case 'ammo':
+        if (!character.reload(item.data.ammo || 0)) {
+          return;
+        }
+        break;
+    }
+    character.items.splice(character.items.indexOf(key), 1);
+    character.stats.useActionPoints(item.actionPoints);
+    character.animateText(item.name);
+    this.undoHistory = [];
+    if (this.players.indexOf(character) !== -1) {
+      this.selectPlayer(character.id);
+    }
+  }
+
+  /**
+   * Adds a door, closing or opening its cell to match @param state.
+   */
+  public addDoor(state: IDoorState): void {
+    const door = new Door(this.grid.get(state.x, state.y), state);
+    this.doors.push(door);
+    this.events.emit('door', door);
+  }
+
+  /**
+   * Opens or closes @param door, returning whether it did.
+   */
+  private setDoorOpen(door: Door, open: boolean): boolean {
+    if (!door.setOpen(open)) {
+      return false;
+    }
+    this.events.emit('door', door);
+    return true;
+  }
+
+  /**
+   * Uses the door or switch at @param position, next to @param pc.
+   */
+  private interact(pc: Character, position: { x: number; y: number }): void {
+    const cell = this.grid.get(position.x, position.y);
+    pc.rotateToFace(cell);
+    const door = this.doors.find(d => d.cell === cell);
+    if (door !== undefined) {
+      if (this.setDoorOpen(door, !door.isOpen)) {
+        pc.stats.useActionPoints(door.data.actionPoints);
+      }
+      return;
+    }
+    const toggle = this.switches.find(s => s.x === cell.x && s.y === cell.y);
+    if (toggle !== undefined) {
+      this.doors
+        .filter(d => toggle.targets.indexOf(d.name) !== -1)
+        .forEach(d => this.setDoorOpen(d, !d.isOpen));
+      pc.stats.useActionPoints(toggle.actionPoints);
+    }
+  }
+
+  /**
+   * Whether there is an open door at @param position.
+   */
+  private isOpenDoor(position: { x: number; y: number }): boolean {
+    const cell = this.grid.get(position.x, position.y);
+    return this.doors.some(d => d.cell === cell && d.isOpen);
+  }
+
+  /**
+   * Returns the action points @param character needs to use the door or
+   * switch in @param cell, or null if there is nothing there it can use.
+   */
+  private interactionCost(character: Character, cell: Cell): number | null {
+    const door = this.doors.find(d => d.cell === cell);
+    if (door !== undefined) {
+      const { sealed, requiresItem, actionPoints } = door.data;
+      const hasItem =
+        requiresItem === '' || character.items.indexOf(requiresItem) !== -1;
+      return !sealed && hasItem ? actionPoints : null;
+    }
+    const toggle = this.switches.find(s => s.x === cell.x && s.y === cell.y);
+    return toggle !== undefined ? toggle.actionPoints : null;
+  }
+
+  /**
+   * Performs an attack @param from @param to.
+   *
+   * The returned @see Promise completes when the attack animation does.
+   */
+  public async performAttack(from: Character, to: Character): Promise<void> {
+    from.rotateToFace(to.cell);
+    from.stats.useActionPoints(from.melee.actionPoints);
+    await from.animateAttack(to);
+    await this.performHit(from, from.melee, to);
+  }
+
+  /**
+   * Fires the ranged weapon of @param from at @param to.
+   *
+   * The returned @see Promise completes when the projectile hits.
+   */
+  public async performRangedAttack(
+    from: Character,
+    to: Character
+  ): Promise<void> {
+    const weapon = from.ranged!;
+    from.rotateToFace(to.cell);
+    from.stats.useActionPoints(weapon.actionPoints);
+    if (weapon.usesAmmo) {
+      from.ammo--;
+    }
+    await from.animateShot(to);
+    await this.performHit(from, weapon, to);
+  }
+
+  /**
+   * Rolls an attack with @param weapon @param from @param to, killing them if
+   * they have no hit points left.
+   */
+  private async performHit(
+    from: Character,
+    weapon: Weapon,
+    to: Character
+  ): Promise<void> {
+    const result = weapon.attack(
+      this.random,
+      Pathfinder.distance(from.cell, to.cell)
+    );
+    if (!result.hit) {
+      await to.animateText('Miss');
+      return;
+    }
+    await this.damage(
+      to,
+      result.damage,
+      from,
+      result.critical ? `Crit! ${result.damage}` : `${result.damage}`
+    );
+  }
+
+  /**
+   * Takes @param amount hit points from @param to, killing it if none are
+   * left, and shows @param label over it.
+   *
+   * Crew hurt by hostiles are infected, and rise as hostiles if killed.
+   *
+   * @param attacker Character dealing the damage, or null for traps.
+   */
+  private async damage(
+    to: Character,
+    amount: number,
+    attacker: Character | null,
+    label = `${amount}`
+  ): Promise<void> {
+    to.stats.useHitPoints(amount);
+    to.animateText(label);
+    await to.animateHit();
+    const bitten =
+      attacker !== null &&
+      attacker.control === Control.Hostile &&
+      to.control === Control.Friendly;
+    if (to.isDead) {
+      if (to.control === Control.Friendly) {
+        this.killFriendly(to);
+        if (bitten) {
+          this.corpses.push({
+            x: to.x,
+            y: to.y,
+            name: to.name,
+            turns: Simulation.reanimationTurns,
+          });
+        }
+      } else if (to.control === Control.Hostile) {
+        this.killHostile(to);
+      }
+    } else if (bitten && to.infection === null) {
+      to.infection = Simulation.infectionTurns;
+      to.animateText('Infected!');
+    }
+  }
+
+  /**
+   * Advances the infection of the crew by a turn, raising as hostiles the
+   * corpses and bitten crew whose time has come.
+   */
+  private spreadInfection(): void {
+    this.corpses.forEach(c => c.turns--);
+    this.corpses
+      .filter(c => c.turns <= 0)
+      .forEach(c => {
+        this.corpses.splice(this.corpses.indexOf(c), 1);
+        this.reanimate(this.grid.get(c.x, c.y), c.name);
+      });
+    this.players.forEach(p => {
+      if (p.infection !== null) {
+        p.infection--;
+      }
+    });
+    this.players
+      .filter(p => p.infection !== null && p.infection <= 0)
+      .forEach(p => {
+        const cell = p.cell;
+        this.removeFriendly(p);
+        p.destroy();
+        this.reanimate(cell, p.name);
+      });
+  }
+
+  /**
+   * Spawns a hostile, that was once the crew member @param name, on or near
+   * @param cell.
+   */
+  private reanimate(cell: Cell, name: string): void {
+    const origin = cell.isPathable
+      ? cell
+      : Array.from(cell.getCellsInWalkingDistance(1).keys())[0];
+    if (origin === undefined) {
+      return;
+    }
+    const zombie = this.createHostile(
+      origin,
+      this.random.pick(Simulation.reanimatedSprites),
+      `Zombie ${name}`
+    );
+    this.spawnHostile(zombie);
+    this.touchedHostile(zombie);
+    zombie.animateText('Rises!');
+  }
+
+  /**
+   * Should be called when @param character enters the game.
+   */
+  public spawnFriendly(character: Character): void {
+    this.events.emit('spawn', character);
+    this.joinCrew(character);
+  }
+
+  /**
+   * Puts @param character, already on the map, under the player's control.
+   */
+  private joinCrew(character: Character): void {
+    this.players.push(character);
+    this.mCrewTotal++;
+    this.events.emit('join', character);
+  }
+
+  /**
+   * Should be called when neutral @param character enters the game.
+   */
+  public spawnNeutral(character: Character): void {
+    this.neutrals.push(character);
+    this.events.emit('spawn', character);
+  }
+
+  /**
+   * Converts neutral @param character into a friendly, playable character.
+   */
+  public recruitNeutral(character: Character): void {
+    const index = this.neutrals.indexOf(character);
+    if (index === -1) {
+      return;
+    }
+    this.neutrals.splice(index, 1);
+    character.setControl(Control.Friendly);
+    character.cower(false);
+    this.joinCrew(character);
+    this.selectPlayer(this.mSelectedPlayerId);
+  }
+
+  /**
+   * Asks any neutral crew that @param pc has come next to, walking from
+   * @param from, whether to join them; unless they are still waiting for an
+   * answer.
+   *
+   * The offer lapses if @param pc has walked away (or undone the move) by the
+   * time it is accepted.
+   */
+  private offerRecruitment(pc: Character, from: Cell): void {
+    this.neutrals
+      .filter(
+        n =>
+          Pathfinder.distance(n.cell, pc.cell) === 1 &&
+          Pathfinder.distance(n.cell, from) !== 1 &&
+          !this.pendingRecruits.has(n)
+      )
+      .forEach(n => {
+        this.pendingRecruits.add(n);
+        this.ask(
+          n,
+          `${pc.name}! Please, take me with you!`,
+          ['yes', 'no'],
+          choice => {
+            this.pendingRecruits.delete(n);
+            if (
+              choice === 'yes' &&
+              !this.isLocked &&
+              this.players.indexOf(pc) !== -1 &&
+              Pathfinder.distance(n.cell, pc.cell) === 1
+            ) {
+              this.recruitNeutral(n);
+            }
+          }
+        );
+      });
+  }
+
+  /**
+   * Makes neutral crew cower if they can see any hostiles nearby.
+   */
+  private updateNeutrals(): void {
+    this.neutrals.forEach(n =>
+      n.cower(
+        this.zombies.some(
+          z =>
+            Pathfinder.distance(n.cell, z.cell) <=
+              Simulation.neutralFearRange &&
+            this.visibility.hasLineOfSight(n.cell, z.cell)
+        )
+      )
+    );
+  }
+
+  /**
+   * Should be called when @param character is defeated.
+   */
+  public killFriendly(character: Character): void {
+    if (!this.removeFriendly(character)) {
+      return;
+    }
+    character.die();
+  }
+
+  /**
+   * Should be called when @param character escapes through an exit.
+   */
+  public evacuateFriendly(character: Character): void {
+    if (this.players.indexOf(character) === -1) {
+      return;
+    }
+    const snapshot = character.toSnapshot();
+    this.mEvacuated.push(snapshot);
+    this.events.emit('evacuate', snapshot);
+    character.setSeen(false);
+    this.removeFriendly(character);
+  }
+
+  /**
+   * Removes @param character from play, ending the game if they were the last
+   * crewmate left.
+   *
+   * Returns whether they were removed.
+   */
+  private removeFriendly(character: Character): boolean {
+    const index = this.players.indexOf(character);
+    if (index === -1) {
+      return false;
+    }
+    this.players.splice(index, 1);
+    this.events.emit('leave', character);
+    this.grid.get(character.x, character.y).removeUnit(character);
+    if (this.players.length === 0) {
+      this.endGame(
+        this.mEvacuated.length > 0 ? GameState.Victory : GameState.Defeat
+      );
+      return true;
+    }
+    if (this.mSelectedPlayerId === character.id) {
+      this.selectPlayer(this.players[index % this.players.length].id);
+    }
+    return true;
+  }
+
+  /**
+   * Should be called when @param character enters the game.
+   *
+   * While idle, the character walks the cells of @param patrol, if any.
+   */
+  public spawnHostile(character: Character, patrol: Cell[] = []): void {
+    this.zombies.push(character);
+    if (patrol.length > 0) {
+      this.aiController.assignPatrol(character, patrol);
+    }
+    this.events.emit('spawn', character);
+  }
+
+  /**
+   * Should be called when @param character is mutated or moves.
+   */
+  public touchedHostile(character: Character): void {
+    character.setSeen(this.visibleCells.has(character.cell));
+  }
+
+  /**
+   * Should be called when @param character is defeated.
+   */
+  public killHostile(character: Character): void {
+    const index = this.zombies.indexOf(character);
+    if (index === -1) {
+      return;
+    }
+    this.zombies.splice(index, 1);
+    this.mZombiesKilled++;
+    this.grid.get(character.x, character.y).removeUnit(character);
+    character.die();
+  }
+
+  /**
+   * Returns a new ID for a character entering the game.
+   */
+  private newCharacterId(): number {
+    return this.nextCharacterId++;
+  }
+
+  /**
+   * Returns the crew member with the given @param id, if still in play.
+   */
+  public getPlayer(id: number): Character | undefined {
+    return this.players.find(p => p.id === id);
+  }
+
+  private selectPlayer(id: number): void {
+    this.mSelectedPlayerId = id;
+    this.mPlayerActions = this.getUnitActions(this.selectedPlayer);
+    this.updateSight();
+    this.updateNeutrals();
+    this.events.emit('select', this.selectedPlayer);
+  }
+
+  /**
+   * Works out what the crew can see, and hides hostiles that are out of
+   * sight.
+   */
+  private updateSight(): void {
+    const visible = new Set<Cell>();
+    this.players.forEach(p =>
+      this.visibility
+        .visibleCells(p.cell, Simulation.crewSightRange)
+        .forEach(c => visible.add(c))
+    );
+    this.visibleCells = visible;
+    this.events.emit('sight', visible);
+    this.zombies.forEach(z => this.touchedHostile(z));
+  }
+
+  /**
+   * The available actions that the currently selected PC may make.
+   */
+  public get playerActions(): ReadonlyArray<UnitAction> {
+    return this.mPlayerActions;
+  }
+
+  /**
+   * ID of the selected crew member.
+   */
+  public get selectedPlayerId(): number {
+    return this.mSelectedPlayerId;
+  }
+
+  public get selectedPlayer(): Character {
+    return this.getPlayer(this.mSelectedPlayerId)!;
+  }
+
+  /**
+   * The player's crew, in the order they joined.
+   */
+  public get crew(): ReadonlyArray<Character> {
+    return this.players;
+  }
+
+  public xyInBounds(x: number, y: number) {
+    return x >= 0 && x <= this.grid.width && y >= 0 && y <= this.grid.height;
+  }
+
+  /**
+   * Returns an array of available unit actions for the given unit.
+   */
+  public getUnitActions(unit: PhysicalUnit): UnitAction[] {
+    const actions: UnitAction[] = [];
+    const x = unit.x;
+    const y = unit.y;
+
+    if (unit instanceof Character) {
+      if (unit.stats.actionPoints <= 0) {
+        return [];
+      }
+    }
+
+    // Check for attack actions against adjacent cells.
+    const d: number = 1;
+    for (let i: number = -d; i <= d; i += 1) {
+      for (let j: number = -d; j <= d; j += 1) {
+        if (this.xyInBounds(x + i, y + j)) {
+          const position = { x: x + i, y: y + j };
+          // Can't attack self.
+          if (x === position.x && y === position.y) {
+            continue;
+          }
+          const attackableUnit = this.grid.getAttackbleUnit(
+            unit,
+            position.x,
+            position.y
+          );
+          if (
+            attackableUnit !== null &&
+            (!(unit instanceof Character) ||
+              unit.stats.actionPoints >= unit.melee.actionPoints)
+          ) {
+            actions.push(
+              new UnitAction(UnitActionType.Attack, position, attackableUnit)
+            );
+          }
+        }
+      }
+    }
+
+    // Check for doors and switches to use in adjacent cells.
+    if (unit instanceof Character) {
+      for (const cell of unit.cell.adjacentCells()) {
+        const cost = this.interactionCost(unit, cell);
+        if (cost !== null && unit.stats.actionPoints >= cost) {
+          actions.push(
+            new UnitAction(UnitActionType.Interact, { x: cell.x, y: cell.y })
+          );
+        }
+      }
+    }
+
+    // Check for ranged attack actions against non-adjacent cells in sight.
+    if (
+      unit instanceof Character &&
+      unit.ranged !== null &&
+      unit.canShoot &&
+      unit.stats.actionPoints >= unit.ranged.actionPoints
+    ) {
+      this.visibility
+        .visibleCells(unit.cell, unit.ranged.range)
+        .filter(cell => Pathfinder.distance(unit.cell, cell) > 1)
+        .forEach(cell => {
+          const attackableUnit = this.grid.getAttackbleUnit(
+            unit,
+            cell.x,
+            cell.y
+          );
+          if (attackableUnit !== null) {
+            actions.push(
+              new UnitAction(
+                UnitActionType.RangedAttack,
+                { x: cell.x, y: cell.y },
+                attackableUnit
+              )
+            );
+          }
+        });
+    }
+
+    // Check for move actions to every cell within walking distance.
+    const steps = unit instanceof Character ? unit.stats.actionPoints : 1;
+    unit.cell.getCellsInWalkingDistance(steps).forEach((path, cell) => {
+      actions.push(
+        new UnitAction(
+          UnitActionType.Move,
+          { x: cell.x, y: cell.y },
+          null,
+          path
+        )
+      );
+    });
+
+    return actions;
+  }
+
+  /**
+   * Ends the player's turn, and plays out the enemy turn.
+   *
+   * The simulation is locked until the returned @see Promise completes.
+   */
+  private async endTurn(): Promise<void> {
+    if (this.isLocked) {
+      return;
+    }
+    this.busy = true;
+    try {
+      await this.aiController.doTurn();
+    } finally {
+      this.busy = false;
+    }
+    if (this.mState !== GameState.Playing) {
+      return;
+    }
+    this.undoHistory = [];
+    this.mTurn++;
+    this.spreadInfection();
+    if (this.mState !== GameState.Playing) {
+      return;
+    }
+    this.spawners.forEach(s =>
+      this.spawnHostilesNear(
+        this.grid.get(s.data.x, s.data.y),
+        s.update(this.mTurn)
+      )
+    );
+    // Perform end-of-turn mechanics for PCs and enemies.
+    [...this.players, ...this.zombies].forEach(unit => unit.newTurn());
+    // Reselect player to refresh actions etc.
+    this.selectPlayer(this.mSelectedPlayerId);
+    await this.events.emit('newTurn', this.mTurn);
+  }
+
+  /**
+   * Returns the serializable state of the entire simulation.
+   */
+  public toSnapshot(): IWorldSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      level: this.level,
+      random: { seed: this.random.seed, state: this.random.state },
+      turn: this.mTurn,
+      selectedPlayerId: this.mSelectedPlayerId,
+      nextCharacterId: this.nextCharacterId,
+      crewTotal: this.mCrewTotal,
+      zombiesKilled: this.mZombiesKilled,
+      previousTotals: this.previousTotals,
+      players: this.players.map(p => p.toSnapshot()),
+      zombies: this.zombies.map(z => {
+        const memory = this.aiController.memoryOf(z);
+        return {
+          ...z.toSnapshot(),
+          patrol: memory.patrol.map(({ x, y }) => ({ x, y })),
+          patrolIndex: memory.patrolIndex,
+          lastKnownPosition:
+            memory.lastKnownPosition === null
+              ? null
+              : {
+                  x: memory.lastKnownPosition.x,
+                  y: memory.lastKnownPosition.y,
+                },
+        };
+      }),
+      neutrals: this.neutrals.map(n => n.toSnapshot()),
+      evacuated: [...this.mEvacuated],
+      gridEvents: this.gridEvents.map(e => ({
+        ...e,
+        triggeredBy: [...e.triggeredBy],
+      })),
+      doors: this.doors.map(d => d.toSnapshot()),
+      switches: [...this.switches],
+      pickups: [...this.pickups],
+      corpses: this.corpses.map(c => ({ ...c })),
+      spawners: this.spawners.map(s => s.toSnapshot()),
+    };
+  }
+
+  /**
+   * Restores the state saved by @see toSnapshot, then selects the character
+   * that was selected.
+   */
+  public loadFromSnapshot(snapshot: IWorldSnapshot): void {
+    snapshot.players.forEach(p => this.spawnFriendly(this.restoreCharacter(p)));
+    snapshot.zombies.forEach(z => {
+      const zombie = this.restoreCharacter(z);
+      this.spawnHostile(
+        zombie,
+        z.patrol.map(({ x, y }) => this.grid.get(x, y))
+      );
+      const memory = this.aiController.memoryOf(zombie);
+      memory.patrolIndex = z.patrolIndex;
+      memory.lastKnownPosition =
+        z.lastKnownPosition === null
+          ? null
+          : this.grid.get(z.lastKnownPosition.x, z.lastKnownPosition.y);
+    });
+    snapshot.neutrals.forEach(n => this.spawnNeutral(this.restoreCharacter(n)));
+    snapshot.evacuated.forEach(e => {
+      this.mEvacuated.push(e);
+      this.events.emit('evacuate', e);
+    });
+    // Copied, as firing events marks them triggered.
+    this.gridEvents.push(
+      ...snapshot.gridEvents.map(e => ({
+        ...e,
+        triggeredBy: [...e.triggeredBy],
+      }))
+    );
+    snapshot.doors.forEach(d => this.addDoor(d));
+    this.switches.push(...snapshot.switches);
+    snapshot.pickups.forEach(p => this.addPickup(p));
+    this.corpses.push(...snapshot.corpses.map(c => ({ ...c })));
+    this.spawners.push(...snapshot.spawners.map(s => new Spawner(s)));
+    this.mTurn = snapshot.turn;
+    this.mCrewTotal = snapshot.crewTotal;
+    this.mZombiesKilled = snapshot.zombiesKilled;
+    this.previousTotals = snapshot.previousTotals;
+    this.nextCharacterId = snapshot.nextCharacterId;
+    this.selectPlayer(snapshot.selectedPlayerId);
+  }
+
+  /**
+   * Creates a character from a state returned by @see Character.toSnapshot.
+   */
+  private restoreCharacter(snapshot: ICharacterSnapshot): Character {
+    const character = Character.create(
+      snapshot.id,
+      this.grid,
+      this.grid.get(snapshot.x, snapshot.y),
+      snapshot.sprite as CharacterSprite,
+      snapshot.control,
+      snapshot.name,
+      Statistics.fromSnapshot(snapshot.stats),
+      new Weapon(snapshot.melee),
+      snapshot.ranged === null ? null : new Weapon(snapshot.ranged)
+    );
+    character.setRotation(snapshot.rotation);
+    character.items.push(...snapshot.items);
+    character.ammo = snapshot.ammo;
+    character.infection = snapshot.infection;
+    return character;
+  }
+
+  /**
+   * Loads the @param objects of the unit layer of a map with tiles of
+   * @param tileSize pixels, then selects the first character.
+   *
+   * If any @param crew are carried over from the previous level, they take
+   * the places of the players defined in the map.
+   *
+   * @param totals Totals of the campaign levels played before this one.
+   */
+  public loadFromObjects(
+    objects: IMapData[],
+    tileSize: number,
+    crew: ICharacterSnapshot[] = [],
+    totals = noCampaignTotals
+  ): void {
+    // Carried-over crew were counted by the previous level, and are counted
+    // again as they join this one.
+    this.previousTotals = {
+      ...totals,
+      crewTotal: totals.crewTotal - crew.length,
+    };
+    const spawns: Cell[] = [];
+    new ObjectDataParser({
+      newCharacterId: () => this.newCharacterId(),
+      spawnPlayer: p => {
+        if (crew.length === 0) {
+          this.spawnFriendly(p);
+          return;
+        }
+        spawns.push(p.cell);
+        p.destroy();
+      },
+      spawnHostile: (z, patrol) => this.spawnHostile(z, patrol),
+      spawnNeutral: n => this.spawnNeutral(n),
+      addGridEvent: e => this.gridEvents.push(e),
+      addDoor: d => this.addDoor(d),
+      addSwitch: s => this.switches.push(s),
+      addPickup: p => this.addPickup(p),
+      addSpawner: s => this.spawners.push(new Spawner(s)),
+    }).parse(this.grid, objects, this.data, tileSize);
+    crew.forEach((c, i) => {
+      // Any crew beyond the spawn points are placed near the last one.
+      const cell =
+        i < spawns.length
+          ? spawns[i]
+          : this.nearestFreeCell(spawns[spawns.length - 1]);
+      // Crew get new IDs, as the characters of the map may have theirs.
+      const character = this.restoreCharacter({
+        ...c,
+        id: this.newCharacterId(),
+        x: cell.x,
+        y: cell.y,
+      });
+      character.stats.restoreFull();
+      this.spawnFriendly(character);
+    });
+    this.selectPlayer(this.players[0].id);
+  }
+
+  /**
+   * Returns the closest cell to @param origin that a character can be placed
+   * on, looking past (but not through walls around) any units in the way.
+   */
+  private nearestFreeCell(origin: Cell): Cell {
+    const reachable = new Pathfinder(
+      this.grid,
+      c => !c.collides()
+    ).reachableCells(origin, this.grid.width + this.grid.height);
+    const cell = Array.from(reachable.keys()).find(c => c.isPathable);
+    if (cell === undefined) {
+      throw new Error(`No free cell near (${origin.x}, ${origin.y})`);
+    }
+    return cell;
+  }
+}
@@ -0,0 +1,153 @@
+import { Control } from './unit';
+import { IGridEvent } from './parser';
+import { IWeaponData } from './weapon';
+import { IDoorState, ISwitch } from './door';
+import { IPickup } from './item';
+import { ISpawnerState } from './spawner';
+import { ICampaignTotals } from '../campaign';
+
+/**
+ * Incremented whenever @see IWorldSnapshot changes incompatibly.
+ *
+ * Snapshots saved with a different version are not loaded.
+ */
+export const SNAPSHOT_VERSION = 10;
+
+/**
+ * Serializable state of a @see Statistics.
+ */
+export interface IStatisticsSnapshot {
+  readonly hitPoints: number;
+  readonly actionPoints: number;
+  readonly maxHitPoints: number;
+  readonly maxActionPoints: number;
+}
+
+/**
+ * Serializable state of a @see Character.
+ */
+export interface ICharacterSnapshot {
+  readonly id: number;
+  readonly name: string;
+  readonly sprite: string;
+  readonly control: Control;
+  readonly x: number;
+  readonly y: number;
+  readonly rotation: number;
+  readonly stats: IStatisticsSnapshot;
+  readonly melee: IWeaponData;
+  readonly ranged: IWeaponData | null;
+  readonly items: string[];
+  readonly ammo: number;
+  readonly infection: number | null;
+}
+
+/**
+ * Crew killed by hostiles, waiting to rise as hostiles themselves.
+ */
+export interface ICorpseSnapshot {
+  readonly x: number;
+  readonly y: number;
+  readonly name: string;
+
+  /**
+   * Turns left until the corpse rises.
+   */
+  turns: number;
+}
+
+/**
+ * Serializable state of a hostile @see Character and what it remembers.
+ */
+export interface IHostileSnapshot extends ICharacterSnapshot {
+  readonly patrol: Array<{ x: number; y: number }>;
+  readonly patrolIndex: number;
+  readonly lastKnownPosition: { x: number; y: number } | null;
+}
+
+/**
+ * Serializable state of an entire @see World.
+ */
+export interface IWorldSnapshot {
+  readonly version: number;
+
+  /**
+   * Index of the campaign level being played.
+   */
+  readonly level: number;
+  readonly random: { readonly seed: number; readonly state: number };
+  readonly turn: number;
+
+  /**
+   * ID of the selected crew member.
+   */
+  readonly selectedPlayerId: number;
+
+  /**
+   * ID given to the next character to enter the game.
+   */
+  readonly nextCharacterId: number;
+  readonly crewTotal: number;
+  readonly zombiesKilled: number;
+
+  /**
+   * Totals of the campaign levels played before this one.
+   */
+  readonly previousTotals: ICampaignTotals;
+  readonly players: ICharacterSnapshot[];
+  readonly zombies: IHostileSnapshot[];
+  readonly neutrals: ICharacterSnapshot[];
+  readonly evacuated: ICharacterSnapshot[];
+  readonly gridEvents: IGridEvent[];
+  readonly doors: IDoorState[];
+  readonly switches: ISwitch[];
+  readonly pickups: IPickup[];
+  readonly corpses: ICorpseSnapshot[];
+  readonly spawners: ISpawnerState[];
+}
+
+/**
+ * Saves and loads snapshots in named slots of browser storage.
+ */
+export class SnapshotStorage {
+  private static readonly keyPrefix = 'ludum-43/save/';
+
+  constructor(private readonly storage: Storage = window.localStorage) {}
+
+  /**
+   * Saves @param snapshot to @param slot, replacing any existing snapshot.
+   */
+  public save(slot: string, snapshot: IWorldSnapshot): void {
+    this.storage.setItem(
+      SnapshotStorage.keyPrefix + slot,
+      JSON.stringify(snapshot)
+    );
+  }
+
+  /**
+   * Returns the snapshot saved in @param slot, or null if there is none or it
+   * was saved by an incompatible version of the game.
+   *
+   * A save that can't be read (e.g. edited by hand) is discarded.
+   */
+  public load(slot: string): IWorldSnapshot | null {
+    const key = SnapshotStorage.keyPrefix + slot;
+    const json = this.storage.getItem(key);
+    if (json === null) {
+      return null;
+    }
+    let snapshot: Partial<IWorldSnapshot> | null;
+    try {
+      snapshot = JSON.parse(json);
+    } catch (e) {
+      snapshot = null;
+    }
+    if (snapshot === null || typeof snapshot !== 'object') {
+      this.storage.removeItem(key);
+      return null;
+    }
+    return snapshot.version === SNAPSHOT_VERSION
+      ? (snapshot as IWorldSnapshot)
+      : null;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Serializable state of a @see Spawner, as defined in the object layer.
+ */
+export interface ISpawnerState {
+  readonly name: string;
+  readonly x: number;
+  readonly y: number;
+
+  /**
+   * Whether waves are spawned on schedule; inactive spawners wait for a grid
+   * event to activate them.
+   */
+  readonly active: boolean;
+
+  /**
+   * Turns between waves, or 0 to only spawn when activated.
+   */
+  readonly every: number;
+
+  /**
+   * Hostiles in the first wave.
+   */
+  readonly count: number;
+
+  /**
+   * Hostiles added to each wave after the first.
+   */
+  readonly growth: number;
+
+  /**
+   * Most waves spawned, or 0 for no limit.
+   */
+  readonly waves: number;
+  readonly wavesSpawned: number;
+  readonly nextTurn: number;
+}
+
+/**
+ * A vent, hatch or similar that spawns waves of hostiles over time.
+ */
+export class Spawner {
+  private mActive: boolean;
+  private mWavesSpawned: number;
+  private mNextTurn: number;
+
+  constructor(public readonly data: ISpawnerState) {
+    this.mActive = data.active;
+    this.mWavesSpawned = data.wavesSpawned;
+    this.mNextTurn = data.nextTurn;
+  }
+
+  public get name(): string {
+    return this.data.name;
+  }
+
+  /**
+   * Starts spawning on schedule from @param turn.
+   *
+   * Returns the number of hostiles to spawn right away.
+   */
+  public activate(turn: number): number {
+    this.mActive = true;
+    this.mNextTurn = turn + this.data.every;
+    return this.nextWave();
+  }
+
+  /**
+   * Returns the number of hostiles to spawn on @param turn, which is 0 if no
+   * wave is due.
+   */
+  public update(turn: number): number {
+    if (!this.mActive || this.data.every === 0 || turn < this.mNextTurn) {
+      return 0;
+    }
+    this.mNextTurn = turn + this.data.every;
+    return this.nextWave();
+  }
+
+  /**
+   * Returns the serializable state of this spawner.
+   */
+  public toSnapshot(): ISpawnerState {
+    return {
+      ...this.data,
+      active: this.mActive,
+      wavesSpawned: this.mWavesSpawned,
+      nextTurn: this.mNextTurn,
+    };
+  }
+
+  private nextWave(): number {
+    if (this.data.waves > 0 && this.mWavesSpawned >= this.data.waves) {
+      return 0;
+    }
+    const count = this.data.count + this.data.growth * this.mWavesSpawned;
+    this.mWavesSpawned++;
+    return count;
+  }
+}
@@ -0,0 +1,79 @@
+import { Grid } from './grid';
+import { IMapData } from './schema';
+
+/**
+ * The parts of a map exported by Tiled, as JSON, that the simulation reads.
+ */
+export interface ITiledMap {
+  readonly width: number;
+  readonly height: number;
+  readonly tilewidth: number;
+  readonly layers: ReadonlyArray<{
+    readonly name: string;
+    readonly data?: ReadonlyArray<number>;
+    readonly objects?: ReadonlyArray<IMapData>;
+  }>;
+  readonly tilesets: ReadonlyArray<{
+    readonly firstgid: number;
+    readonly tiles?: ReadonlyArray<{
+      readonly id: number;
+      readonly properties?: ReadonlyArray<{ name: string; value: {} }>;
+    }>;
+  }>;
+}
+
+/**
+ * Reads a Tiled map without Phaser, e.g. to run the simulation headless.
+ *
+ * In the game, the same data is read through a @see phaser.Tilemaps.Tilemap.
+ */
+export class TiledMap {
+  constructor(private readonly data: ITiledMap) {}
+
+  /**
+   * Width and height, in pixels, of a single tile.
+   */
+  public get tileSize(): number {
+    return this.data.tilewidth;
+  }
+
+  /**
+   * Creates a grid of the tile layer @param layerName, where blank tiles and
+   * tiles with the `collides` property block movement.
+   */
+  public createGrid(layerName: string): Grid {
+    const { width, height } = this.data;
+    const tiles = this.layer(layerName).data || [];
+    const collidable = new Set<number>();
+    this.data.tilesets.forEach(tileset =>
+      (tileset.tiles || []).forEach(tile => {
+        if (
+          (tile.properties || []).some(
+            p => p.name === 'collides' && p.value === true
+          )
+        ) {
+          collidable.add(tileset.firstgid + tile.id);
+        }
+      })
+    );
+    return new Grid(width, height, (x, y) => {
+      const gid = tiles[x + y * width];
+      return !gid || collidable.has(gid);
+    });
+  }
+
+  /**
+   * Returns the objects of the object layer @param layerName.
+   */
+  public objects(layerName: string): IMapData[] {
+    return [...(this.layer(layerName).objects || [])];
+  }
+
+  private layer(name: string) {
+    const layer = this.data.layers.find(l => l.name === name);
+    if (layer === undefined) {
+      throw new Error(`Unknown map layer: "${name}"`);
+    }
+    return layer;
+  }
+}
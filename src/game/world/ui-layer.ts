@@ -37,4 +37,5 @@ export enum UILayerTile {
   YELLOW = 5,
   GREEN = 6,
   BLUE = 7,
+  PURPLE = 8,
 }
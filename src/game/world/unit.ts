@@ -1,7 +1,13 @@
-import { TILE_SIZE } from './../constants';
-import * as phaser from 'phaser';
 import { Cell, Grid } from './grid';
-import { MessageBox } from '../messageBox';
+import { Emitter } from './events';
+import { Weapon } from './weapon';
+import { ICharacterSnapshot, IStatisticsSnapshot } from './snapshot';
+
+/**
+ * Key of the texture used to display a @see Character, as listed in
+ * `assets/sprites.json`.
+ */
+export type CharacterSprite = string;
 
 /**
  * What controls a given @see PhysicalUnit.
@@ -17,7 +23,7 @@ export enum Control {
  *
  * The unit may or may not be _phyiscally_ displayed (for example, a spawn
  * location, invisible gate, or other marker-like location or trigger). See also
- * @see DisplayUnit.
+ * @see Character.
  */
 export class PhysicalUnit {
   /**
@@ -32,13 +38,6 @@ export class PhysicalUnit {
     cell.addUnit(this);
   }
 
-  /**
-   * Update the object on the game loop.
-   */
-  public update(): void {
-    // Not implemented for PhysicalUnit.
-  }
-
   /**
    * X-coordinate within the grid.
    */
@@ -53,6 +52,13 @@ export class PhysicalUnit {
     return this.cell.y;
   }
 
+  /**
+   * Whether the unit has been defeated, and only its remains are left.
+   */
+  public get isDead(): boolean {
+    return false;
+  }
+
   /**
    * Moves the unit immediately to @param newCell.
    *
@@ -105,39 +111,6 @@ export class PhysicalUnit {
   public newTurn(): void {}
 }
 
-/**
- * Represents a renderable unit.
- */
-export class DisplayUnit extends PhysicalUnit {
-  constructor(
-    grid: Grid,
-    cell: Cell,
-    control: Control,
-    public readonly sprite: phaser.GameObjects.Sprite
-  ) {
-    super(grid, cell, control);
-  }
-
-  public update(): void {
-    this.sprite.setPosition(
-      (this.x + 0.5) * this.sprite.width,
-      (this.y + 0.5) * this.sprite.height
-    );
-  }
-
-  public get isVisible(): boolean {
-    return true;
-  }
-
-  /**
-   * Updates this unit's state based on end-of-turn mechanics.
-   */
-  // tslint:disable-next-line:no-empty
-  public newTurn(): void {
-    super.newTurn();
-  }
-}
-
 export class Statistics {
   private mHitPoints: number;
   private mActionPoints: number;
@@ -197,142 +170,272 @@ export class Statistics {
   public get maxHitPoints(): number {
     return this.mMaxHitPoints;
   }
-}
 
-const hpBarH: number = 15;
-const hpBarX: number = 0;
-const hpBarY: number = TILE_SIZE;
-const greenBarColor: number = 0xffffff;
-const redBarColor: number = 0xffffff;
-const textColor: string = '#FFFFFF';
-
-export class HealthBar extends phaser.GameObjects.Container {
-  public readonly greenBar!: phaser.GameObjects.Graphics;
-  public readonly redBar!: phaser.GameObjects.Graphics;
-  public readonly textBar!: phaser.GameObjects.Text;
-
-  constructor(scene: phaser.Scene) {
-    super(scene, hpBarX, hpBarY);
+  /**
+   * Returns the serializable state of these statistics.
+   */
+  public toSnapshot(): IStatisticsSnapshot {
+    return {
+      hitPoints: this.mHitPoints,
+      actionPoints: this.mActionPoints,
+      maxHitPoints: this.mMaxHitPoints,
+      maxActionPoints: this.maxActionPoints,
+    };
+  }
 
-    this.setSize(TILE_SIZE, hpBarH);
+  /**
+   * Creates statistics from a state returned by @see toSnapshot.
+   */
+  public static fromSnapshot(snapshot: IStatisticsSnapshot): Statistics {
+    const stats = new Statistics(
+      snapshot.maxHitPoints,
+      snapshot.maxActionPoints
+    );
+    stats.mHitPoints = snapshot.hitPoints;
+    stats.mActionPoints = snapshot.actionPoints;
+    return stats;
+  }
+}
 
-    this.greenBar = this.scene.add
-      .graphics()
-      .fillRect(this.x, this.y, TILE_SIZE, hpBarH)
-      .fillStyle(greenBarColor);
-    this.redBar = this.scene.add
-      .graphics()
-      .fillRect(this.x, this.y, 0, hpBarH)
-      .fillStyle(redBarColor);
-    this.textBar = this.scene.add.text(hpBarX, hpBarY, `UNINITIALIZED`);
+/**
+ * A message spoken by a @see Character, possibly offering choices.
+ */
+export interface ISpeech {
+  readonly text: string;
+  readonly choices: string[];
 
-    this.textBar.setColor(textColor);
-    this.textBar.setFontSize(10);
+  /**
+   * Called with the selected choice, and its index, if any.
+   */
+  readonly onChoice?: (choice: string, index: number) => void;
+}
 
-    this.add(this.greenBar);
-    this.add(this.redBar);
-    this.add(this.textBar);
+/**
+ * What happens to a @see Character, for views to show.
+ *
+ * Views may delay the simulation until they have animated an event by
+ * returning a @see Promise from their listener.
+ */
+export interface ICharacterEvents {
+  /**
+   * Moved into its current cell, walking there if `animate` is set.
+   */
+  readonly move: { readonly from: Cell; readonly animate: boolean };
+  readonly rotate: number;
+  readonly attack: PhysicalUnit;
+  readonly shoot: PhysicalUnit;
+  readonly text: string;
+  readonly hit: void;
+  readonly speak: ISpeech;
+  readonly cower: boolean;
+  readonly control: Control;
 
-    this.setVisible(false);
-  }
+  /**
+   * Came into, or went out of, sight of the crew.
+   */
+  readonly seen: boolean;
+  readonly die: void;
+  readonly destroy: void;
+}
 
-  public refresh(c: Character): void {
-    this.setPosition(c.x * TILE_SIZE, c.y * TILE_SIZE);
+export class Character extends PhysicalUnit {
+  /**
+   * Keys of the items carried.
+   */
+  public readonly items: string[] = [];
 
-    const gw = (c.stats.hitPoints / c.stats.maxHitPoints) * TILE_SIZE;
+  /**
+   * Shots left in the ranged weapon, if it uses ammo.
+   */
+  public ammo: number;
 
-    this.greenBar.fillRect(this.x, this.y, gw, hpBarH);
+  /**
+   * Turns left until a bitten character turns hostile, or null if the
+   * character is not infected.
+   */
+  public infection: number | null = null;
 
-    this.redBar.fillRect(this.x + gw, this.y, TILE_SIZE - gw, hpBarH);
+  public readonly events = new Emitter<ICharacterEvents>();
 
-    this.textBar.text = `${c.stats.hitPoints}/${c.stats.maxHitPoints}`;
-    this.textBar.setPosition(
-      hpBarX + this.textBar.width / 2,
-      hpBarY + (hpBarH - this.textBar.height) / 2
-    );
-  }
-}
+  private mRotation = 0;
+  private mSeen = true;
+  private mCowering = false;
 
-export class Character extends DisplayUnit {
   public static create(
+    id: number,
     grid: Grid,
     cell: Cell,
-    scene: phaser.Scene,
-    sprite: 'pc-1' | 'pc-2' | 'pc-3' | 'bad-1' | 'bad-2' | 'bad-3',
+    sprite: CharacterSprite,
     control: Control,
     name: string,
-    stats: Statistics
+    stats: Statistics,
+    melee = Weapon.unarmed,
+    ranged: Weapon | null = null
   ): Character {
-    const healthbar = new HealthBar(scene);
-    scene.children.add(healthbar);
     return new Character(
+      id,
       grid,
       cell,
-      scene.make.sprite({
-        key: sprite,
-      }),
+      sprite,
       control,
       name,
       stats,
-      healthbar
+      melee,
+      ranged
     );
   }
 
+  /**
+   * @param id Identifies the character, uniquely within a game, for as long
+   * as it lasts.
+   * @param sprite Key of the texture the character is displayed with.
+   * @param melee Weapon used to attack adjacent units.
+   * @param ranged Weapon used to attack units further away, if any.
+   */
   private constructor(
+    public readonly id: number,
     grid: Grid,
     cell: Cell,
-    sprite: phaser.GameObjects.Sprite,
+    public readonly sprite: CharacterSprite,
     control: Control,
     public readonly name: string,
     public readonly stats: Statistics,
-    private readonly healthbar: HealthBar
+    public melee: Weapon,
+    public ranged: Weapon | null
   ) {
-    super(grid, cell, control, sprite);
-    this.sprite.setSize(TILE_SIZE, TILE_SIZE);
-    this.sprite.setDisplaySize(TILE_SIZE, TILE_SIZE);
-    this.sprite
-      .setInteractive({
-        useHandCursor: true,
-      })
-      .on('pointerover', () => {
-        this.healthbar.refresh(this);
-        this.healthbar.setVisible(true);
-      })
-      .on('pointerout', () => {
-        this.healthbar.setVisible(false);
-      });
+    super(grid, cell, control);
+    this.ammo = ranged !== null ? ranged.data.ammo || 0 : 0;
   }
 
   /**
    * Moves the character without animation.
    */
   public moveImmediate(newCell: Cell): void {
-    // Rotate to face new cell
-    this.rotateToFace(newCell);
-    // Update AP.
-    this.stats.useActionPoints(1);
-    // Perform move.
-    super.moveImmediate(newCell);
+    this.step(newCell, false);
+  }
+
+  /**
+   * Moves the character to @param newCell, letting views animate the walk.
+   */
+  public moveTo(newCell: Cell): Promise<void> {
+    return this.step(newCell, true);
+  }
+
+  /**
+   * Moves the character along each cell of @param path in turn, stopping
+   * early after any step for which @param stop resolves to true.
+   *
+   * The returned @see Promise completes when the walk is over.
+   */
+  public async walk(
+    path: Cell[],
+    stop: () => Promise<boolean> | boolean = () => false
+  ): Promise<void> {
+    for (const cell of path) {
+      await this.moveTo(cell);
+      if (await stop()) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Radians the character is rotated by, facing right at 0.
+   */
+  public get rotation(): number {
+    return this.mRotation;
+  }
+
+  public setRotation(rotation: number): void {
+    this.mRotation = rotation;
+    this.events.emit('rotate', rotation);
   }
 
   /**
    * Rotate to face the given cell
    */
   public rotateToFace(c: Cell): void {
-    // Rotate sprite according to new direction it is facing.
-    const rotAngle: number = Math.atan2(c.y - this.cell.y, c.x - this.cell.x);
-    this.sprite.rotation = rotAngle;
+    this.setRotation(Math.atan2(c.y - this.cell.y, c.x - this.cell.x));
+  }
+
+  /**
+   * Lets views animate lunging towards @param target and back.
+   */
+  public animateAttack(target: PhysicalUnit): Promise<void> {
+    return this.events.emit('attack', target);
   }
 
   /**
-   * Displays a MessageBox with text
-   * @param scene
-   * @param text
+   * Lets views animate firing a laser at @param target.
    */
-  public speak(scene: phaser.Scene, text: string, choices: string[] = []) {
-    // Display message box
-    const msgbox = new MessageBox(scene, this, text, choices);
-    scene.children.add(msgbox);
+  public animateShot(target: PhysicalUnit): Promise<void> {
+    return this.events.emit('shoot', target);
+  }
+
+  /**
+   * Lets views show @param text floating up from the unit, e.g. damage dealt.
+   */
+  public animateText(text: string): Promise<void> {
+    return this.events.emit('text', text);
+  }
+
+  /**
+   * Lets views animate flinching from being hit.
+   */
+  public animateHit(): Promise<void> {
+    return this.events.emit('hit', undefined);
+  }
+
+  /**
+   * Says @param text, e.g. in a message box.
+   *
+   * @param onChoice Called with the selected choice, if any.
+   */
+  public speak(
+    text: string,
+    choices: string[] = [],
+    onChoice?: (choice: string, index: number) => void
+  ): void {
+    this.events.emit('speak', { text, choices, onChoice });
+  }
+
+  /**
+   * Whether the character is cowering in fear.
+   */
+  public get cowering(): boolean {
+    return this.mCowering;
+  }
+
+  /**
+   * Makes the character cower in fear (or not) based on @param cowering.
+   */
+  public cower(cowering: boolean): void {
+    if (cowering !== this.mCowering) {
+      this.mCowering = cowering;
+      this.events.emit('cower', cowering);
+    }
+  }
+
+  /**
+   * Hands the character over to @param control, e.g. once recruited.
+   */
+  public setControl(control: Control): void {
+    this.control = control;
+    this.events.emit('control', control);
+  }
+
+  /**
+   * Whether the crew can see the character. Hostiles out of sight are hidden.
+   */
+  public get seen(): boolean {
+    return this.mSeen;
+  }
+
+  public setSeen(seen: boolean): void {
+    if (seen !== this.mSeen) {
+      this.mSeen = seen;
+      this.events.emit('seen', seen);
+    }
   }
 
   /**
@@ -343,26 +446,116 @@ export class Character extends DisplayUnit {
     super.newTurn();
   }
 
+  /**
+   * Whether the character has a ranged weapon that is ready to fire.
+   */
+  public get canShoot(): boolean {
+    return this.ranged !== null && (!this.ranged.usesAmmo || this.ammo > 0);
+  }
+
+  /**
+   * Replaces the melee or ranged weapon, depending on the range of
+   * @param weapon. A new ranged weapon comes fully loaded.
+   */
+  public equip(weapon: Weapon): void {
+    if (weapon.range > 1) {
+      this.ranged = weapon;
+      this.ammo = weapon.data.ammo || 0;
+    } else {
+      this.melee = weapon;
+    }
+  }
+
+  /**
+   * Loads up to @param amount shots into the ranged weapon.
+   *
+   * Returns false if it has no use for ammo, or is already fully loaded.
+   */
+  public reload(amount: number): boolean {
+    if (this.ranged === null || this.ranged.data.ammo === undefined) {
+      return false;
+    }
+    if (this.ammo >= this.ranged.data.ammo) {
+      return false;
+    }
+    this.ammo = Math.min(this.ammo + amount, this.ranged.data.ammo);
+    return true;
+  }
+
+  /**
+   * Leaves the remains of the character where it fell.
+   */
+  public die(): void {
+    this.events.emit('die', undefined);
+  }
+
+  /**
+   * Removes the character from the grid and the screen.
+   */
+  public destroy(): void {
+    this.cell.removeUnit(this);
+    this.events.emit('destroy', undefined);
+  }
+
+  /**
+   * Returns the serializable state of this character.
+   */
+  public toSnapshot(): ICharacterSnapshot {
+    return {
+      id: this.id,
+      name: this.name,
+      sprite: this.sprite,
+      control: this.control,
+      x: this.x,
+      y: this.y,
+      rotation: this.mRotation,
+      stats: this.stats.toSnapshot(),
+      melee: this.melee.data,
+      ranged: this.ranged === null ? null : this.ranged.data,
+      items: [...this.items],
+      ammo: this.ammo,
+      infection: this.infection,
+    };
+  }
+
   /*
    * Returns whether this character is dead.
    */
   public get isDead(): boolean {
     return this.stats.hitPoints === 0;
   }
+
+  public get isVisible(): boolean {
+    return true;
+  }
+
+  /**
+   * Rotates to face, spends an action point on, and moves into @param newCell.
+   */
+  private step(newCell: Cell, animate: boolean): Promise<void> {
+    const from = this.cell;
+    this.rotateToFace(newCell);
+    this.stats.useActionPoints(1);
+    super.moveImmediate(newCell);
+    return this.events.emit('move', { from, animate });
+  }
 }
 
 export enum UnitActionType {
   Move,
   Attack,
+  RangedAttack,
+  Interact,
 }
 
 export class UnitAction {
+  /**
+   * @param path Cells to step through, in order, for a multi-tile move.
+   */
   constructor(
     public readonly type: UnitActionType,
-    public readonly position: phaser.Math.Vector2,
-    public readonly targetUnit: PhysicalUnit | null = null
-  ) {
-    this.type = type;
-    this.position = new phaser.Math.Vector2(position);
-  }
+    public readonly position: { readonly x: number; readonly y: number },
+    public readonly targetUnit: PhysicalUnit | null = null,
+    public readonly path: Cell[] = []
+  ) {}
 }
@@ -0,0 +1,63 @@
+import { Cell, Grid } from './grid';
+
+/**
+ * Determines what can be seen across a @see Grid.
+ *
+ * Sight is blocked by collidable cells (walls, bulkheads, empty space), but
+ * not by units.
+ */
+export class Visibility {
+  constructor(private readonly grid: Grid) {}
+
+  /**
+   * Returns whether @param to can be seen from @param from.
+   *
+   * Casts a ray between the centers of both cells. Only the cells in between
+   * block sight, so a wall itself can be seen.
+   */
+  public hasLineOfSight(from: Cell, to: Cell): boolean {
+    let x = from.x;
+    let y = from.y;
+    const dx = Math.abs(to.x - from.x);
+    const dy = -Math.abs(to.y - from.y);
+    const sx = from.x < to.x ? 1 : -1;
+    const sy = from.y < to.y ? 1 : -1;
+    let error = dx + dy;
+    while (x !== to.x || y !== to.y) {
+      if ((x !== from.x || y !== from.y) && this.grid.get(x, y).collides()) {
+        return false;
+      }
+      const e2 = 2 * error;
+      if (e2 >= dy) {
+        error += dy;
+        x += sx;
+      }
+      if (e2 <= dx) {
+        error += dx;
+        y += sy;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Returns every cell within @param range of @param from that can be seen.
+   */
+  public visibleCells(from: Cell, range: number): Cell[] {
+    const results: Cell[] = [];
+    for (let i = -range; i <= range; i++) {
+      for (let j = -range; j <= range; j++) {
+        const x = from.x + i;
+        const y = from.y + j;
+        if (
+          i * i + j * j <= range * range &&
+          this.grid.isOnGrid(x, y) &&
+          this.hasLineOfSight(from, this.grid.get(x, y))
+        ) {
+          results.push(this.grid.get(x, y));
+        }
+      }
+    }
+    return results;
+  }
+}
@@ -0,0 +1,120 @@
+import { Random } from '../random';
+
+/**
+ * Weapon attributes, as defined in `assets/weapons.json`.
+ */
+export interface IWeaponData {
+  readonly name: string;
+
+  /**
+   * Minimum and maximum (inclusive) damage dealt on a hit.
+   */
+  readonly damage: [number, number];
+
+  /**
+   * Chance, from 0 to 1, of hitting an adjacent target.
+   */
+  readonly accuracy: number;
+
+  /**
+   * Accuracy lost for each cell of distance beyond adjacent.
+   */
+  readonly accuracyFalloff?: number;
+
+  /**
+   * Action points spent per attack.
+   */
+  readonly actionPoints: number;
+
+  /**
+   * Furthest distance, in cells, the weapon can attack.
+   */
+  readonly range: number;
+
+  /**
+   * Chance, from 0 to 1, that a hit is critical.
+   */
+  readonly critChance?: number;
+
+  /**
+   * Damage multiplier applied to critical hits.
+   */
+  readonly critMultiplier?: number;
+
+  /**
+   * Shots the weapon holds when fully loaded; unlimited if not given.
+   */
+  readonly ammo?: number;
+}
+
+/**
+ * Outcome of a single attack.
+ */
+export interface IAttackResult {
+  readonly hit: boolean;
+  readonly critical: boolean;
+  readonly damage: number;
+}
+
+/**
+ * An attack profile, used by a @see Character to deal damage.
+ */
+export class Weapon {
+  /**
+   * Used when a character has not been given a weapon.
+   */
+  public static readonly unarmed = new Weapon({
+    name: 'Fists',
+    damage: [1, 1],
+    accuracy: 1,
+    actionPoints: 1,
+    range: 1,
+  });
+
+  constructor(public readonly data: IWeaponData) {}
+
+  public get name(): string {
+    return this.data.name;
+  }
+
+  public get actionPoints(): number {
+    return this.data.actionPoints;
+  }
+
+  public get range(): number {
+    return this.data.range;
+  }
+
+  public get usesAmmo(): boolean {
+    return this.data.ammo !== undefined;
+  }
+
+  /**
+   * Returns the chance, from 0 to 1, of hitting a target @param distance
+   * cells away.
+   */
+  public hitChance(distance: number): number {
+    const falloff =
+      (this.data.accuracyFalloff || 0) * Math.max(distance - 1, 0);
+    return Math.min(Math.max(this.data.accuracy - falloff, 0), 1);
+  }
+
+  /**
+   * Rolls an attack against a target @param distance cells away.
+   */
+  public attack(random: Random, distance: number): IAttackResult {
+    if (random.next() >= this.hitChance(distance)) {
+      return { hit: false, critical: false, damage: 0 };
+    }
+    const [min, max] = this.data.damage;
+    const damage = min + random.nextInt(max - min + 1);
+    const critical = random.next() < (this.data.critChance || 0);
+    return {
+      hit: true,
+      critical,
+      damage: critical
+        ? Math.ceil(damage * (this.data.critMultiplier || 2))
+        : damage,
+    };
+  }
+}
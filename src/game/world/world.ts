@@ -1,309 +1,649 @@
 import * as phaser from 'phaser';
 import { Grid } from './grid';
-import {
-  Character,
-  PhysicalUnit,
-  UnitAction,
-  UnitActionType,
-  Control,
-} from './unit';
+import { Character, UnitActionType } from './unit';
 import { UILayer, UILayerTile } from './ui-layer';
-import { AIController } from './ai-controller';
-import { IGridEvent, ObjectDataParser } from './parser';
 import { UIMenu } from '../ui';
+import { FogLayer } from './fog-layer';
+import { Random } from '../random';
+import { TILE_SIZE, UNIT_LAYER_NAME } from '../constants';
+import { ICampaign, ICampaignTotals } from '../campaign';
+import { IGameResults, ResultsScene } from '../results';
+import { SettingsScene } from '../settings';
+import { Pathfinder } from './pathfinding';
+import {
+  ICharacterSnapshot,
+  IWorldSnapshot,
+  SnapshotStorage,
+} from './snapshot';
+import { IPickup, Item } from './item';
+import { IMapData } from './schema';
+import { CharacterView } from './character-view';
+import { GameState, Simulation } from './simulation';
+import { Command, IReplay, Replay } from './replay';
+
+/**
+ * Font size of the names of items lying on the map.
+ */
+const pickupTextSize = 10;
 
 /**
- * The World class defines the game world.
+ * How a @see World is started.
+ */
+export interface IWorldOptions {
+  /**
+   * Index of the campaign level to play.
+   */
+  readonly level?: number;
+
+  /**
+   * Crew rescued from the previous level, who continue into this level.
+   */
+  readonly crew?: ICharacterSnapshot[];
+
+  /**
+   * Totals of the campaign levels played before this one.
+   */
+  readonly totals?: ICampaignTotals;
+
+  /**
+   * Saved game to restore, instead of starting the level from the beginning.
+   */
+  readonly snapshot?: IWorldSnapshot;
+
+  /**
+   * Seeds all randomness, so a game can be reproduced.
+   */
+  readonly seed?: number;
+
+  /**
+   * Replay to play back, instead of the other options, locking input until
+   * it's over.
+   */
+  readonly replay?: IReplay;
+}
+
+/**
+ * The World class displays the @see Simulation of a level in a Phaser scene,
+ * and turns player input into its actions.
  */
 export class World {
-  private readonly grid!: Grid;
-  private readonly uiLayer: UILayer;
-  private readonly uiMenu: UIMenu;
-  private readonly aiController: AIController;
-  private readonly gridEvents: IGridEvent[] = [];
-  private readonly players: Character[] = [];
-  private readonly zombies: Character[] = [];
+  /**
+   * Slot the game is saved to at the start of every turn.
+   */
+  public static readonly autosaveSlot = 'auto';
 
-  private selectedPlayerId: number = 0;
+  /**
+   * Milliseconds to wait after the game ends before showing the results.
+   */
+  private static readonly resultsDelay = 2000;
 
-  private playerActions: UnitAction[] = [];
+  /**
+   * How each type of action is highlighted.
+   */
+  private static readonly actionTiles: { [type: number]: UILayerTile } = {
+    [UnitActionType.Move]: UILayerTile.BLUE,
+    [UnitActionType.Attack]: UILayerTile.RED,
+    [UnitActionType.RangedAttack]: UILayerTile.YELLOW,
+    [UnitActionType.Interact]: UILayerTile.PURPLE,
+  };
+
+  public readonly simulation: Simulation;
+
+  private readonly uiLayer: UILayer;
+  private readonly fogLayer: FogLayer;
+  private readonly hoverText: phaser.GameObjects.Text;
+  private readonly uiMenu: UIMenu;
+  private readonly snapshots = new SnapshotStorage();
+  private readonly views = new Map<Character, CharacterView>();
+  private readonly pickupLabels = new Map<IPickup, phaser.GameObjects.Text>();
+  private readonly recorder: Replay;
+  private playingBack = false;
+  private hovered: { x: number; y: number } | null = null;
+  private target: { x: number; y: number } | null = null;
 
+  /**
+   * @param campaign Levels played, in order; the tilemap is of the current.
+   */
   constructor(
     public readonly scene: phaser.Scene,
     private readonly tilemap: phaser.Tilemaps.Tilemap,
-    groundLayer: phaser.Tilemaps.DynamicTilemapLayer
+    private readonly groundLayer: phaser.Tilemaps.DynamicTilemapLayer,
+    private readonly campaign: ICampaign,
+    options: IWorldOptions = {}
   ) {
+    const { replay } = options;
+    const { snapshot, crew = [], totals, seed = Date.now() } = replay
+      ? { ...replay, snapshot: replay.snapshot || undefined }
+      : options;
+    this.simulation = new Simulation(
+      new Grid(tilemap.width, tilemap.height, (x, y) => {
+        const tile = groundLayer.getTileAt(x, y);
+        // Consider blank tiles collidable.
+        return tile === null || tile.collides;
+      }),
+      {
+        weapons: scene.cache.json.get('weapons'),
+        items: scene.cache.json.get('items'),
+        dialogue: scene.cache.json.get('dialogue'),
+        sprites: scene.cache.json.get('sprites'),
+      },
+      snapshot
+        ? new Random(snapshot.random.seed, snapshot.random.state)
+        : new Random(seed),
+      World.levelOf(options),
+      command => this.execute(command)
+    );
+    this.recorder = new Replay(this.simulation, crew, snapshot || null, totals);
+
     // Create UI.
     this.uiLayer = new UILayer(this.tilemap);
+    this.fogLayer = new FogLayer(this.tilemap);
+    this.hoverText = this.scene.add.text(0, 0, '');
+    this.hoverText.setFontSize(12);
+    this.hoverText.setDepth(20);
+    this.hoverText.setVisible(false);
     this.uiMenu = new UIMenu(scene, this);
     this.scene.children.add(this.uiMenu);
     this.scene.input.topOnly = true;
+    this.subscribe();
 
-    // Create grid, AI controller.
-    this.grid = new Grid(tilemap, groundLayer);
-    this.aiController = new AIController(this.grid, this, this.zombies);
-
-    // Load JSON.
-    this.loadFromTilemapObjectLayer(tilemap);
+    if (snapshot) {
+      this.simulation.loadFromSnapshot(snapshot);
+    } else {
+      // Load JSON.
+      this.simulation.loadFromObjects(
+        (tilemap.getObjectLayer(UNIT_LAYER_NAME).objects as {}) as IMapData[],
+        tilemap.tileWidth,
+        crew,
+        totals
+      );
 
-    // Select starting player.
-    this.selectPlayer(0);
+      // Introductory message box
+      const { title, intro } = this.campaign.levels[this.simulation.level];
+      this.getSelectedPlayer().speak(`[${title}]\n${intro}`);
+    }
+    if (replay) {
+      this.playBack(replay);
+    }
+    // Later turns are saved as they start, by the newTurn event.
+    this.autosave();
+  }
 
-    // Introductory message box
-    this.getSelectedPlayer().speak(
-      this.scene,
-      `I have to get as many people outta here as I can! Alien zombies are attacking our spaceship!`
-    );
+  /**
+   * Returns the index of the campaign level played with @param options,
+   * whose tilemap the world should be created with.
+   */
+  public static levelOf(options: IWorldOptions): number {
+    const { snapshot, level = 0 } = options.replay || options;
+    return snapshot ? snapshot.level : level;
   }
 
-  public handleClick(gridX: number, gridY: number) {
+  /**
+   * Handles a click on the grid at @param gridX, @param gridY.
+   *
+   * @param interact Whether to use the door or switch there, rather than
+   * walking through an open door.
+   *
+   * The returned @see Promise completes once any resulting action, including
+   * its animation, is complete. Clicks are ignored while input is locked.
+   */
+  public async handleClick(
+    gridX: number,
+    gridY: number,
+    interact = false
+  ): Promise<void> {
+    if (this.isInputLocked) {
+      return;
+    }
     // Handle player character selection.
-    let didSelectPlayer = false;
-    this.players.forEach((p, id) => {
-      if (gridX === p.x && gridY === p.y) {
-        this.selectPlayer(id);
-        didSelectPlayer = true;
-      }
-    });
+    const pc = this.simulation.crew.find(p => gridX === p.x && gridY === p.y);
     // Don't allow selection and movement in the same click.
-    if (didSelectPlayer) {
+    if (pc !== undefined) {
+      await this.execute({ type: 'select', id: pc.id });
       return;
     }
     // Handle player character actions.
-    this.playerActions
-      .filter(
-        action => gridX === action.position.x && gridY === action.position.y
-      )
-      .forEach(action => {
-        if (action.type === UnitActionType.Move) {
-          const cell = this.grid.get(gridX, gridY);
-          const pc = this.getSelectedPlayer();
-          pc.moveTo(cell);
-          // Handle GridEvent 'speak' type
-          this.gridEvents.forEach(ge => {
-            if (ge.x === pc.x && ge.y === pc.y) {
-              switch (ge.type) {
-                case 'yes-no':
-                  pc.speak(this.scene, ge.text, ['yes', 'no']);
-                  break;
-                case 'speak':
-                  pc.speak(this.scene, ge.text);
-                  break;
-                case 'win':
-                  let numAlive: number = 0;
-                  this.players.forEach(p => {
-                    if (p.stats.hitPoints > 0) {
-                      numAlive += 1;
-                    }
-                  });
-
-                  const successString: string = `I did it! I made it!\n${
-                    numAlive > 1
-                      ? `And even ${numAlive - 1} of my crewmates made it!`
-                      : `Unforunately none of my crewmates survived...`
-                  }`;
-
-                  pc.speak(this.scene, successString);
-                  break;
-                default:
-                  break;
-              }
-            }
-          });
-          // Reselect player to refresh actions etc.
-          this.selectPlayer(this.getSelectedPlayerId());
-          this.touchedFriendly();
-        } else if (action.type === UnitActionType.Attack) {
-          const pc = this.getSelectedPlayer();
-          const target = action.targetUnit as Character;
-          this.performAttack(pc, target);
-          // Reselect player to refresh actions etc.
-          this.selectPlayer(this.getSelectedPlayerId());
-          this.touchedFriendly();
-        }
-      });
+    const action = this.simulation.playerActions.find(
+      a =>
+        gridX === a.position.x &&
+        gridY === a.position.y &&
+        (!interact || a.type === UnitActionType.Interact)
+    );
+    if (action === undefined) {
+      return;
+    }
+    this.uiLayer.clearActive();
+    await this.execute(
+      interact
+        ? { type: 'interact', x: gridX, y: gridY }
+        : { type: 'act', x: gridX, y: gridY }
+    );
   }
 
   /**
-   * Should be called on each game loop update.
+   * Whether there is a move this turn that the player can undo, e.g. to show
+   * the undo button of the @see UIMenu as enabled.
    */
-  public gameLoopUpdate(): void {
-    this.uiMenu.update();
-    this.players.forEach(p => p.update());
-    this.zombies.forEach(p => p.update());
+  public get canUndo(): boolean {
+    return !this.playingBack && this.simulation.canUndo;
   }
 
   /**
-   * Performs an attack @param from @param to.
+   * Takes back the most recent move made this turn, if possible.
    */
-  public performAttack(from: Character, to: Character): void {
-    from.rotateToFace(to.cell);
-    from.stats.useActionPoints(1);
-    to.stats.useHitPoints(1);
-    if (to.isDead) {
-      if (to.control === Control.Friendly) {
-        this.killFriendly(to);
-      } else if (to.control === Control.Hostile) {
-        this.killHostile(to);
-      }
+  public undo(): void {
+    this.execute({ type: 'undo' });
+  }
+
+  /**
+   * Handles the pointer hovering over the grid at @param gridX, @param gridY.
+   *
+   * Shows the chance to hit when hovering over an attack. Moving the pointer
+   * clears the target chosen by @see cycleTargets.
+   */
+  public handleHover(gridX: number, gridY: number): void {
+    if (
+      this.hovered === null ||
+      this.hovered.x !== gridX ||
+      this.hovered.y !== gridY
+    ) {
+      this.hovered = { x: gridX, y: gridY };
+      this.target = null;
     }
+    this.showHitChance(this.target || this.hovered!);
   }
 
   /**
-   * Should be called when @param character enters the game.
+   * Targets the next attack the selected character can make, then the next
+   * door or switch it can use, showing the chance to hit of attacks until the
+   * pointer is moved.
    */
-  public spawnFriendly(character: Character): void {
-    this.players.push(character);
-    this.uiMenu.addCharacter(character);
+  public cycleTargets(): void {
+    const actions = this.simulation.playerActions;
+    const attacks = actions.filter(a => a.targetUnit !== null);
+    const targets = [
+      ...attacks,
+      // A unit standing in a doorway is targeted once, as an attack.
+      ...actions.filter(
+        a =>
+          a.type === UnitActionType.Interact &&
+          !attacks.some(
+            t => t.position.x === a.position.x && t.position.y === a.position.y
+          )
+      ),
+    ];
+    if (targets.length === 0 || this.isInputLocked) {
+      this.target = null;
+      return;
+    }
+    const index = targets.findIndex(
+      a =>
+        this.target !== null &&
+        a.position.x === this.target.x &&
+        a.position.y === this.target.y
+    );
+    this.target = targets[(index + 1) % targets.length].position;
   }
 
   /**
-   * Should be called when @param character is defeated.
+   * Attacks, or uses the door or switch that is, the target chosen by
+   * @see cycleTargets, if any.
    */
-  public killFriendly(character: Character): void {
-    if (this.players.indexOf(character) === -1) {
+  public async attackTarget(): Promise<void> {
+    if (this.target === null) {
       return;
     }
-    const index = this.players.indexOf(character);
-    this.players.splice(index, 1);
-    this.uiMenu.removeCharacter(character);
-    this.grid.get(character.x, character.y).removeUnit(character);
-    character.sprite.setTexture('blood');
-    character.sprite.setDisplaySize(32, 32);
-    if (this.getSelectedPlayerId() === index) {
-      // TODO: Handle last player dead.
-      this.selectPlayer((index + 1) % this.players.length);
+    const { x, y } = this.target;
+    const attack = this.simulation.playerActions.some(
+      a => a.targetUnit !== null && a.position.x === x && a.position.y === y
+    );
+    await this.handleClick(x, y, !attack);
+  }
+
+  /**
+   * Shows the chance to hit of the attack at @param position, if any.
+   */
+  private showHitChance(position: { x: number; y: number }): void {
+    const action = this.simulation.playerActions.find(
+      a =>
+        position.x === a.position.x &&
+        position.y === a.position.y &&
+        a.targetUnit !== null
+    );
+    if (action === undefined || this.isInputLocked) {
+      this.hoverText.setVisible(false);
+      return;
     }
-    this.touchedFriendly();
-    // TODO: Remove from the screen.
-    // TODO: Message or notification.
-    // TODO: Ensure a dead unit is not selected.
+    const pc = this.getSelectedPlayer();
+    const weapon =
+      action.type === UnitActionType.RangedAttack ? pc.ranged! : pc.melee;
+    const chance = weapon.hitChance(
+      Pathfinder.distance(pc.cell, action.targetUnit!.cell)
+    );
+    this.hoverText.text = `${Math.round(chance * 100)}%`;
+    this.hoverText.setPosition(
+      position.x * TILE_SIZE + (TILE_SIZE - this.hoverText.width) / 2,
+      position.y * TILE_SIZE - this.hoverText.height
+    );
+    this.hoverText.setVisible(true);
   }
 
   /**
-   * Should be called when @param character is mutated.
+   * Whether input is ignored, i.e. while actions are being animated or once
+   * the game is over.
    */
-  public touchedFriendly(): void {
-    this.uiMenu.update();
+  public get isInputLocked(): boolean {
+    return this.playingBack || this.simulation.isLocked;
   }
 
   /**
-   * Should be called when @param character enters the game.
+   * Whether the game is still being played, or how it ended.
    */
-  public spawnHostile(character: Character): void {
-    this.zombies.push(character);
+  public get state(): GameState {
+    return this.simulation.state;
   }
 
   /**
-   * Should be called when @param character is defeated.
+   * The current turn, starting from 1.
    */
-  public killHostile(character: Character): void {
-    this.zombies.splice(this.zombies.indexOf(character), 1);
-    character.sprite.setTexture('blood');
-    character.sprite.setDisplaySize(32, 32);
-    // TODO: Remove from the screen.
-    // TODO: Message or notification.
+  public get turn(): number {
+    return this.simulation.turn;
   }
 
-  public selectPlayer(id: number): void {
-    this.selectedPlayerId = id;
+  /**
+   * Shows the results once the game ends with the given @param state.
+   *
+   * If the crew escaped and there are more levels, moves on to the next level
+   * instead, taking the rescued crew with them.
+   */
+  private endGame(state: GameState): void {
     this.uiLayer.clearActive();
-    this.uiLayer.setActive(this.players[id].x, this.players[id].y);
-    this.scene.cameras.main.startFollow(this.players[id].sprite);
-    this.updatePlayerActions();
+    const { level, evacuated } = this.simulation;
+    if (
+      state === GameState.Victory &&
+      level + 1 < this.campaign.levels.length
+    ) {
+      const next: IWorldOptions = {
+        level: level + 1,
+        crew: [...evacuated],
+        totals: this.simulation.campaignTotals,
+      };
+      this.scene.time.delayedCall(
+        World.resultsDelay,
+        () => this.scene.scene.restart(next),
+        [],
+        this
+      );
+      return;
+    }
+    const results: IGameResults = {
+      state,
+      survivors: evacuated.map(e => e.name),
+      ...this.simulation.campaignTotals,
+    };
+    this.scene.time.delayedCall(
+      World.resultsDelay,
+      () => this.scene.scene.start(ResultsScene.key, results),
+      [],
+      this
+    );
   }
 
   /**
-   * Updates the available actions that the currently selected PC may make.
+   * Keeps the scene in step with the events of the simulation.
    */
-  private updatePlayerActions() {
-    this.playerActions = this.getUnitActions(this.getSelectedPlayer());
-    for (const action of this.playerActions) {
+  private subscribe(): void {
+    this.simulation.events
+      .on('spawn', c => {
+        this.views.set(c, new CharacterView(this.scene, c));
+      })
+      .on('join', c => {
+        this.uiMenu.addCharacter(c);
+      })
+      .on('leave', c => this.uiMenu.removeCharacter(c))
+      .on('evacuate', e => this.uiMenu.addSaved(e.name))
+      .on('select', pc => this.showSelected(pc))
+      .on('sight', cells => this.fogLayer.update(cells))
+      .on('door', door => {
+        this.groundLayer.putTileAt(door.tile, door.cell.x, door.cell.y);
+      })
+      .on('addPickup', pickup => {
+        const label = this.scene.add.text(
+          pickup.x * TILE_SIZE + TILE_SIZE / 2,
+          pickup.y * TILE_SIZE + TILE_SIZE / 2,
+          this.getItem(pickup.item).name
+        );
+        label.setFontSize(pickupTextSize);
+        label.setOrigin(0.5, 0.5);
+        this.pickupLabels.set(pickup, label);
+      })
+      .on('removePickup', pickup => {
+        this.pickupLabels.get(pickup)!.destroy();
+        this.pickupLabels.delete(pickup);
+      })
+      .on('newTurn', () => this.autosave())
+      .on('gameOver', state => this.endGame(state));
+  }
+
+  /**
+   * Highlights @param pc and the actions it may make, following it with the
+   * camera.
+   */
+  private showSelected(pc: Character): void {
+    this.target = null;
+    this.uiLayer.clearActive();
+    this.uiLayer.setActive(pc.x, pc.y);
+    this.scene.cameras.main.startFollow(this.views.get(pc)!.sprite);
+    // Moves are painted first, so they don't hide doors that can be used.
+    const actions = [...this.simulation.playerActions].sort(
+      (a, b) =>
+        Number(b.type === UnitActionType.Move) -
+        Number(a.type === UnitActionType.Move)
+    );
+    for (const action of actions) {
       this.uiLayer.setActive(
         action.position.x,
         action.position.y,
-        action.type === UnitActionType.Move ? UILayerTile.BLUE : UILayerTile.RED
+        World.actionTiles[action.type]
       );
     }
   }
 
+  /**
+   * Returns the item with the given @param key, as defined in
+   * `assets/items.json`.
+   */
+  public getItem(key: string): Item {
+    return this.simulation.getItem(key);
+  }
+
+  /**
+   * Uses the item @param key carried by @param character, if possible.
+   */
+  public useItem(character: Character, key: string): void {
+    if (!this.isInputLocked) {
+      this.execute({ type: 'use-item', id: character.id, item: key });
+    }
+  }
+
+  /**
+   * Should be called on each game loop update.
+   */
+  public gameLoopUpdate(): void {
+    this.uiMenu.update();
+  }
+
+  /**
+   * Selects the crew member with the given @param id.
+   */
+  public selectPlayer(id: number): void {
+    this.execute({ type: 'select', id });
+  }
+
+  /**
+   * Selects the next crew member, in order, who can still act this turn.
+   */
+  public selectNext(): void {
+    const { crew, selectedPlayer } = this.simulation;
+    const selected = crew.indexOf(selectedPlayer);
+    for (let i = 1; i < crew.length; i++) {
+      const pc = crew[(selected + i) % crew.length];
+      if (!pc.isDead && pc.stats.actionPoints > 0) {
+        this.selectPlayer(pc.id);
+        return;
+      }
+    }
+  }
+
   public getSelectedPlayerId() {
-    return this.selectedPlayerId;
+    return this.simulation.selectedPlayerId;
   }
 
   public getSelectedPlayer() {
-    return this.players[this.selectedPlayerId];
+    return this.simulation.selectedPlayer;
   }
 
-  public xyInBounds(x: number, y: number) {
-    return x >= 0 && x <= this.grid.width && y >= 0 && y <= this.grid.height;
+  /**
+   * Ends the player's turn, and plays out the enemy turn.
+   *
+   * Input is locked until the returned @see Promise completes.
+   */
+  public async endTurn(): Promise<void> {
+    if (this.isInputLocked) {
+      return;
+    }
+    this.uiLayer.clearActive();
+    await this.execute({ type: 'end-turn' });
   }
 
   /**
-   * Returns an array of available unit actions for the given unit.
+   * Executes @param command made by the player, unless input is locked.
    */
-  public getUnitActions(unit: PhysicalUnit): UnitAction[] {
-    const actions: UnitAction[] = [];
-    const x = unit.x;
-    const y = unit.y;
+  private execute(command: Command): Promise<void> {
+    if (this.playingBack) {
+      return Promise.resolve();
+    }
+    return this.simulation.execute(command);
+  }
 
-    if (unit instanceof Character) {
-      if (unit.stats.actionPoints <= 0) {
-        return [];
-      }
+  /**
+   * Saves the game to @see World.autosaveSlot, except while a replay plays
+   * back, so watching one doesn't replace the player's own game.
+   */
+  private autosave(): void {
+    if (!this.playingBack) {
+      this.snapshots.save(World.autosaveSlot, this.simulation.toSnapshot());
     }
+  }
 
-    // Return a list of positions within a box
-    // of height and width 2*d of current position
-    const d: integer = 1;
-    for (let i: integer = -d; i <= d; i += 1) {
-      for (let j: integer = -d; j <= d; j += 1) {
-        if (this.xyInBounds(x + i, y + j)) {
-          const position = new phaser.Math.Vector2(x + i, y + j);
-          // Can't move onto self.
-          if (x === position.x && y === position.y) {
-            continue;
-          }
-          // Check for attack action.
-          const attackableUnit = this.grid.getAttackbleUnit(
-            unit,
-            position.x,
-            position.y
-          );
-          if (attackableUnit !== null) {
-            actions.push(
-              new UnitAction(UnitActionType.Attack, position, attackableUnit)
-            );
-            continue;
-          }
-          // Check for move action.
-          if (this.grid.isPathable(position.x, position.y)) {
-            actions.push(new UnitAction(UnitActionType.Move, position));
-            continue;
-          }
-        }
-      }
+  /**
+   * Re-executes the commands of @param replay, locking input until done.
+   */
+  private async playBack(replay: IReplay): Promise<void> {
+    this.playingBack = true;
+    try {
+      await Replay.play(this.simulation, replay);
+    } finally {
+      this.playingBack = false;
+    }
+    this.tell('Replay finished.');
+  }
+
+  /**
+   * Shows @param text, said by the selected crew member, unless the game is
+   * over and there is nobody left to say it.
+   */
+  private tell(text: string): void {
+    if (this.state === GameState.Playing) {
+      this.getSelectedPlayer().speak(text);
+    }
+  }
+
+  /**
+   * Downloads the replay of the game so far, as played since the level was
+   * started or loaded, e.g. to attach to a bug report.
+   */
+  public exportReplay(): void {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(
+      new Blob([JSON.stringify(this.recorder.toReplay())], {
+        type: 'application/json',
+      })
+    );
+    link.download = `replay-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  /**
+   * Asks for a replay file exported by @see exportReplay, then restarts the
+   * scene to play it back.
+   */
+  public importReplay(): void {
+    if (this.simulation.isBusy) {
+      return;
     }
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json';
+    input.onchange = () => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        let replay: IReplay;
+        try {
+          replay = Replay.parse(reader.result as string);
+        } catch (e) {
+          this.tell(e.message);
+          return;
+        }
+        if (this.campaign.levels[World.levelOf({ replay })] === undefined) {
+          this.tell('This replay is of a level missing from the campaign.');
+          return;
+        }
+        this.scene.scene.restart({ replay });
+      };
+      reader.readAsText(input.files![0]);
+    };
+    input.click();
+  }
 
-    return actions;
+  /**
+   * Pauses the game to show the @see SettingsScene, which resumes it once
+   * closed.
+   */
+  public openSettings(): void {
+    if (this.simulation.isBusy) {
+      return;
+    }
+    this.scene.scene.launch(SettingsScene.key, {
+      returnTo: this.scene.scene.key,
+    });
+    this.scene.scene.pause();
   }
 
-  public endTurn(): void {
-    this.aiController.doTurn();
-    // Perform end-of-turn mechanics for PCs and enemies.
-    [...this.players, ...this.zombies].forEach(unit => unit.newTurn());
-    // Reselect player to refresh actions etc.
-    this.selectPlayer(this.getSelectedPlayerId());
+  /**
+   * Saves the game to @param slot.
+   */
+  public saveGame(slot: string): void {
+    if (this.isInputLocked) {
+      return;
+    }
+    this.snapshots.save(slot, this.simulation.toSnapshot());
+    this.tell(`Saved the game (${slot}).`);
   }
 
   /**
-   * Loads the data from the object layer of the given tilemap.
+   * Restarts the scene from the game saved in @param slot, if any.
    */
-  private loadFromTilemapObjectLayer(tilemap: phaser.Tilemaps.Tilemap): void {
-    new ObjectDataParser({
-      spawnPlayer: p => this.spawnFriendly(p),
-      spawnHostile: z => this.spawnHostile(z),
-      addGridEvent: e => this.gridEvents.push(e),
-    }).parse(this.grid, tilemap);
+  public loadGame(slot: string): void {
+    if (this.simulation.isBusy) {
+      return;
+    }
+    const snapshot = this.snapshots.load(slot);
+    if (snapshot === null) {
+      this.tell(`There is no saved game to load (${slot}).`);
+      return;
+    }
+    this.scene.scene.restart({ snapshot });
   }
 }
@@ -1,7 +1,16 @@
 import * as phaser from 'phaser';
-import { World } from './game/world/world';
+import { World, IWorldOptions } from './game/world/world';
 import { SCREEN_WIDTH, SCREEN_HEIGHT } from './game/constants';
 import { Keyboard } from './game/keyboard';
+import {
+  KeyAction,
+  KeySettingsStorage,
+  moveDeltas,
+  selectActions,
+} from './game/keybindings';
+import { ResultsScene } from './game/results';
+import { SettingsScene } from './game/settings';
+import { ICampaign } from './game/campaign';
 
 // Test Scene
 class HelloScene extends phaser.Scene {
@@ -16,30 +25,45 @@ class HelloScene extends phaser.Scene {
   }
 
   public preload(): void {
-    this.load.tilemapTiledJSON('map', 'src/assets/spaceship.json');
+    this.load.json('campaign', 'src/assets/campaign.json');
+    this.load.json('weapons', 'src/assets/weapons.json');
+    this.load.json('dialogue', 'src/assets/dialogue.json');
+    this.load.json('items', 'src/assets/items.json');
+    this.load.json('sprites', 'src/assets/sprites.json');
     this.load.image('colors', 'src/assets/colors.png');
     this.load.image('spaceship', 'src/assets/spaceship.png');
-    this.load.image('pc-1', 'src/assets/pc1.png');
-    this.load.image('pc-2', 'src/assets/pc2.png');
-    this.load.image('pc-3', 'src/assets/pc3.png');
     this.load.image('npc', 'src/assets/npc.png');
-    this.load.image('bad-1', 'src/assets/baddies1.png');
-    this.load.image('bad-2', 'src/assets/baddies2.png');
-    this.load.image('bad-3', 'src/assets/baddies3.png');
     this.load.image('blood', 'src/assets/blood.png');
     this.load.image('laser', 'src/assets/laser.png');
 
-    // Initialize listening to the keyboard.
-    this.keyobard = new Keyboard(this, k => this.onKeyInput(k));
+    // Load the map of every level, once the campaign is known.
+    this.load.once('filecomplete-json-campaign', () => {
+      const campaign: ICampaign = this.cache.json.get('campaign');
+      campaign.levels.forEach(l => this.load.tilemapTiledJSON(l.key, l.map));
+    });
+
+    // Load the texture of every character, once they are known.
+    this.load.once('filecomplete-json-sprites', () => {
+      const sprites: { [key: string]: string } = this.cache.json.get('sprites');
+      Object.keys(sprites).forEach(key => this.load.image(key, sprites[key]));
+    });
   }
 
-  public create(): void {
+  public create(data: IWorldOptions): void {
     // Load map.
-    this.tilemap = this.make.tilemap({ key: 'map' });
+    const campaign: ICampaign = this.cache.json.get('campaign');
+    const level = World.levelOf(data);
+    this.tilemap = this.make.tilemap({ key: campaign.levels[level].key });
     const tileset = this.tilemap.addTilesetImage('spaceship');
     this.groundLayer = this.tilemap.createDynamicLayer(0, tileset, 0, 0);
     this.groundLayer.setCollisionByProperty({ collides: true });
-    this.world = new World(this, this.tilemap, this.groundLayer);
+    this.world = new World(
+      this,
+      this.tilemap,
+      this.groundLayer,
+      campaign,
+      data
+    );
 
     // Set camera.
     this.cameras.main.setBounds(
@@ -49,65 +73,87 @@ class HelloScene extends phaser.Scene {
       this.tilemap.heightInPixels
     );
     this.cameras.main.scrollX = 200;
+
+    // Listen to the keyboard, again whenever the settings may have changed.
+    this.listenToKeyboard();
+    this.events.on('resume', this.onResume, this);
+    this.events.once('shutdown', () => {
+      this.events.off('resume', this.onResume, this, false);
+    });
   }
 
-  public update(_: number, __: number): void {
+  public update(time: number, __: number): void {
     this.world.gameLoopUpdate();
     this.mouseInput();
-    this.keyobard.update();
+    this.keyobard.update(time);
+  }
+
+  private onResume(): void {
+    this.keyobard.destroy();
+    this.listenToKeyboard();
+  }
+
+  private listenToKeyboard(): void {
+    this.keyobard = new Keyboard(this, new KeySettingsStorage().load(), a =>
+      this.onKeyInput(a)
+    );
   }
 
   private mouseInput(): void {
     const pointer = this.input.activePointer;
+    const worldPoint: Phaser.Math.Vector2 = pointer.positionToCamera(
+      this.cameras.main
+    ) as Phaser.Math.Vector2;
+    const pointedTile = this.groundLayer.getTileAtWorldXY(
+      worldPoint.x,
+      worldPoint.y
+    );
+    if (pointedTile !== null) {
+      this.world.handleHover(pointedTile.x, pointedTile.y);
+    }
     if (pointer.isDown && !this.mouseDown) {
       this.mouseDown = pointer.isDown;
-      const worldPoint: Phaser.Math.Vector2 = pointer.positionToCamera(
-        this.cameras.main
-      ) as Phaser.Math.Vector2;
-      const clickedTile = this.groundLayer.getTileAtWorldXY(
-        worldPoint.x,
-        worldPoint.y
-      );
-      if (clickedTile !== null) {
-        this.world.handleClick(clickedTile.x, clickedTile.y);
+      // Right-clicking uses doors and switches, e.g. to close an open door.
+      if (pointedTile !== null) {
+        this.world.handleClick(
+          pointedTile.x,
+          pointedTile.y,
+          pointer.rightButtonDown()
+        );
       }
     }
     this.mouseDown = pointer.isDown;
   }
 
-  private static readonly keyDeltas: {
-    [key: string]: { x: number; y: number };
-  } = {
-    q: { x: -1, y: -1 },
-    w: { x: 0, y: -1 },
-    e: { x: 1, y: -1 },
-    a: { x: -1, y: 0 },
-    s: { x: 0, y: 1 },
-    d: { x: 1, y: 0 },
-    z: { x: -1, y: 1 },
-    c: { x: 1, y: 1 },
-  };
-
-  private onKeyInput(key: string): void {
-    switch (key) {
-      case 'tab':
-        let nextPlayer = this.world.getSelectedPlayerId() + 1;
-        if (nextPlayer > 2) {
-          nextPlayer = 0;
-        }
-        this.world.selectPlayer(nextPlayer);
+  private onKeyInput(action: KeyAction): void {
+    if (this.world.isInputLocked) {
+      return;
+    }
+    switch (action) {
+      case 'select-next':
+        this.world.selectNext();
         return;
-      case 'space':
+      case 'end-turn':
         this.world.endTurn();
         return;
-      case '1':
-      case '2':
-      case '3':
-        // tslint:disable-next-line:radix
-        this.world.selectPlayer(parseInt(key) - 1);
+      case 'undo':
+        this.world.undo();
         return;
+      case 'cycle-targets':
+        this.world.cycleTargets();
+        return;
+      case 'attack-target':
+        this.world.attackTarget();
+        return;
+    }
+    if (selectActions.indexOf(action) !== -1) {
+      const pc = this.world.simulation.crew[selectActions.indexOf(action)];
+      if (pc !== undefined) {
+        this.world.selectPlayer(pc.id);
+      }
+      return;
     }
-    const delta = HelloScene.keyDeltas[key];
+    const delta = moveDeltas[action];
     const { x, y } = this.world.getSelectedPlayer();
     const tile = this.groundLayer.getTileAt(x + delta.x, y + delta.y);
     if (tile !== null) {
@@ -126,6 +172,7 @@ class HelloScene extends phaser.Scene {
     height: SCREEN_HEIGHT,
     resolution: 1,
     backgroundColor: '#EDEEC9',
-    scene: [HelloScene],
+    disableContextMenu: true,
+    scene: [HelloScene, ResultsScene, SettingsScene],
   });
 })();
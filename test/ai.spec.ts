@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { Pathfinder } from '../src/game/world/pathfinding';
+import { createSimulation, hostiles, mapObject } from './helpers';
+
+const room = ['#########', '#.......#', '#.......#', '#.......#', '#########'];
+
+describe('Hostile turns', () => {
+  it('walks hostiles towards the crew they see', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('hostile-spawn', 6, 1, { ap: 2 }),
+    ]);
+    await simulation.execute({ type: 'end-turn' });
+    const [hostile] = hostiles(simulation);
+    assert.strictEqual(
+      Pathfinder.distance(
+        simulation.selectedPlayer.cell,
+        simulation.grid.get(hostile.x, hostile.y)
+      ),
+      3
+    );
+    assert.strictEqual(simulation.turn, 2);
+  });
+
+  it('attacks adjacent crew, infecting them', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('hostile-spawn', 2, 1, { melee: 'sure', ap: 1 }),
+    ]);
+    await simulation.execute({ type: 'end-turn' });
+    const pc = simulation.selectedPlayer;
+    assert.strictEqual(pc.stats.hitPoints, 4);
+    assert.notStrictEqual(pc.infection, null);
+    const [hostile] = hostiles(simulation);
+    assert.deepStrictEqual([hostile.x, hostile.y], [2, 1]);
+  });
+
+  it('restores the AP of the crew for the new turn', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+    ]);
+    await simulation.execute({ type: 'act', x: 4, y: 1 });
+    await simulation.execute({ type: 'end-turn' });
+    assert.strictEqual(simulation.selectedPlayer.stats.actionPoints, 5);
+  });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { Random } from '../src/game/random';
+import { Pathfinder } from '../src/game/world/pathfinding';
+import { UnitActionType } from '../src/game/world/unit';
+import { Weapon } from '../src/game/world/weapon';
+import { createSimulation, gameData, hostiles, mapObject } from './helpers';
+
+const room = ['#########', '#.......#', '#.......#', '#.......#', '#########'];
+
+describe('Attacking', () => {
+  it('rolls melee hits with the seeded random', async () => {
+    const fists = new Weapon(gameData().weapons.fists);
+    for (let seed = 1; seed <= 20; seed++) {
+      const simulation = createSimulation(
+        room,
+        [
+          mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+          mapObject('hostile-spawn', 2, 1, { hp: 5 }),
+        ],
+        seed
+      );
+      const expected = fists.attack(new Random(seed), 1);
+      await simulation.execute({ type: 'act', x: 2, y: 1 });
+      assert.strictEqual(
+        hostiles(simulation)[0].stats.hitPoints,
+        5 - expected.damage
+      );
+      assert.strictEqual(simulation.selectedPlayer.stats.actionPoints, 4);
+    }
+  });
+
+  it('spends AP on misses', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann', melee: 'never' }),
+      mapObject('hostile-spawn', 2, 1),
+    ]);
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    assert.strictEqual(hostiles(simulation)[0].stats.hitPoints, 2);
+    assert.strictEqual(simulation.selectedPlayer.stats.actionPoints, 4);
+  });
+
+  it('fires ranged weapons at hostiles in sight, using ammo', async () => {
+    const laser = new Weapon(gameData().weapons.laser);
+    const seed = 7;
+    const simulation = createSimulation(
+      room,
+      [
+        mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+        mapObject('hostile-spawn', 5, 2, { hp: 5 }),
+      ],
+      seed
+    );
+    const pc = simulation.selectedPlayer;
+    const distance = Pathfinder.distance(pc.cell, simulation.grid.get(5, 2));
+    const expected = laser.attack(new Random(seed), distance);
+    const action = simulation.playerActions.find(
+      a => a.position.x === 5 && a.position.y === 2
+    );
+    assert.strictEqual(action!.type, UnitActionType.RangedAttack);
+    await simulation.execute({ type: 'act', x: 5, y: 2 });
+    assert.strictEqual(
+      hostiles(simulation)[0].stats.hitPoints,
+      5 - expected.damage
+    );
+    assert.strictEqual(pc.ammo, 5);
+    assert.strictEqual(pc.stats.actionPoints, 3);
+  });
+
+  it('removes killed hostiles from the map, counting each once', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann', melee: 'sure' }),
+      mapObject('hostile-spawn', 2, 1, { hp: 1 }),
+    ]);
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    assert.strictEqual(hostiles(simulation).length, 0);
+    assert.strictEqual(simulation.zombiesKilled, 1);
+    const action = simulation.playerActions.find(
+      a => a.position.x === 2 && a.position.y === 1
+    );
+    assert.strictEqual(action!.type, UnitActionType.Move);
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    assert.strictEqual(simulation.zombiesKilled, 1);
+  });
+});
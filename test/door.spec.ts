@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { UnitActionType } from '../src/game/world/unit';
+import { createSimulation, mapObject } from './helpers';
+
+const rooms = ['#######', '#.....#', '#######'];
+
+describe('Doors', () => {
+  it('walks through open doors', async () => {
+    const simulation = createSimulation(rooms, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('door', 2, 1, { open: true }, 'd1'),
+    ]);
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    const pc = simulation.selectedPlayer;
+    assert.deepStrictEqual([pc.x, pc.y], [2, 1]);
+    assert(!simulation.grid.get(2, 1).collides());
+  });
+
+  it('closes open doors by interacting with them', async () => {
+    const simulation = createSimulation(rooms, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('door', 2, 1, { open: true }, 'd1'),
+    ]);
+    await simulation.execute({ type: 'interact', x: 2, y: 1 });
+    const pc = simulation.selectedPlayer;
+    assert.deepStrictEqual([pc.x, pc.y], [1, 1]);
+    assert(simulation.grid.get(2, 1).collides());
+    assert.strictEqual(pc.stats.actionPoints, 4);
+  });
+
+  it('opens closed doors by acting on them, then walks through', async () => {
+    const simulation = createSimulation(rooms, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('door', 2, 1, {}, 'd1'),
+    ]);
+    assert(
+      !simulation.playerActions.some(
+        a => a.type === UnitActionType.Move && a.position.x >= 2
+      )
+    );
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    assert(!simulation.grid.get(2, 1).collides());
+    await simulation.execute({ type: 'act', x: 4, y: 1 });
+    const pc = simulation.selectedPlayer;
+    assert.deepStrictEqual([pc.x, pc.y], [4, 1]);
+  });
+
+  it('toggles the doors a switch targets', async () => {
+    const simulation = createSimulation(rooms, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('door', 3, 1, { sealed: true }, 'd1'),
+      mapObject('switch', 1, 1, { targets: 'd1' }),
+    ]);
+    assert(simulation.grid.get(3, 1).collides());
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    await simulation.execute({ type: 'act', x: 1, y: 1 });
+    assert(!simulation.grid.get(3, 1).collides());
+  });
+});
@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { noCampaignTotals } from '../src/game/campaign';
+import { Random } from '../src/game/random';
+import { IMapData } from '../src/game/world/schema';
+import { IGameData, Simulation } from '../src/game/world/simulation';
+import {
+  ICharacterSnapshot,
+  IHostileSnapshot,
+} from '../src/game/world/snapshot';
+import { ITiledMap, TiledMap } from '../src/game/world/tiled';
+import { IWeaponData } from '../src/game/world/weapon';
+
+export const tileSize = 32;
+
+/**
+ * Weapons that always and never hit, for attacks that shouldn't depend on the
+ * random seed.
+ */
+export const testWeapons: { [key: string]: IWeaponData } = {
+  sure: {
+    name: 'Sure',
+    damage: [1, 1],
+    accuracy: 1,
+    actionPoints: 1,
+    range: 1,
+  },
+  never: {
+    name: 'Never',
+    damage: [1, 1],
+    accuracy: 0,
+    actionPoints: 1,
+    range: 1,
+  },
+};
+
+/**
+ * Returns the parsed JSON file @param name of `src/assets`.
+ */
+export function asset<T>(name: string): T {
+  return JSON.parse(
+    fs.readFileSync(path.resolve('src/assets', name), 'utf8')
+  ) as T;
+}
+
+/**
+ * Returns the content of the game, plus @see testWeapons.
+ */
+export function gameData(): IGameData {
+  return {
+    weapons: { ...asset('weapons.json'), ...testWeapons },
+    items: asset('items.json'),
+    dialogue: asset('dialogue.json'),
+    sprites: asset('sprites.json'),
+  };
+}
+
+/**
+ * Returns a map drawn by @param rows, where `#` is a wall and anything else is
+ * floor, with @param objects in its `Objects` layer.
+ */
+export function tiledMap(rows: string[], objects: IMapData[]): ITiledMap {
+  return {
+    width: rows[0].length,
+    height: rows.length,
+    tilewidth: tileSize,
+    layers: [
+      {
+        name: 'Ground',
+        data: rows
+          .join('')
+          .split('')
+          .map(c => (c === '#' ? 2 : 1)),
+      },
+      { name: 'Objects', objects },
+    ],
+    tilesets: [
+      {
+        firstgid: 1,
+        tiles: [{ id: 1, properties: [{ name: 'collides', value: true }] }],
+      },
+    ],
+  };
+}
+
+let nextObjectId = 1;
+
+/**
+ * Returns a map object of @param type on the cell (@param x, @param y), with
+ * the custom @param properties.
+ *
+ * @param name Name of the object, which is the sprite of crew.
+ */
+export function mapObject(
+  type: string,
+  x: number,
+  y: number,
+  properties: { [name: string]: string | number | boolean } = {},
+  name = type === 'pc-spawn' || type === 'npc-spawn' ? 'pc-1' : ''
+): IMapData {
+  return {
+    id: nextObjectId++,
+    name,
+    x: x * tileSize + tileSize / 2,
+    y: y * tileSize + tileSize / 2,
+    width: tileSize,
+    properties: [
+      { name: 'object-type', type: 'string', value: type },
+      ...Object.keys(properties).map(key => ({
+        name: key,
+        type: typeof properties[key],
+        value: properties[key],
+      })),
+    ],
+  };
+}
+
+/**
+ * Starts a simulation of the map drawn by @param rows (see @see tiledMap),
+ * with @param objects, seeded with @param seed, as a level after those that
+ * @param crew and @param totals are carried over from.
+ */
+export function createSimulation(
+  rows: string[],
+  objects: IMapData[],
+  seed = 1,
+  crew: ICharacterSnapshot[] = [],
+  totals = noCampaignTotals
+): Simulation {
+  const map = new TiledMap(tiledMap(rows, objects));
+  const simulation = new Simulation(
+    map.createGrid('Ground'),
+    gameData(),
+    new Random(seed),
+    0
+  );
+  simulation.loadFromObjects(
+    map.objects('Objects'),
+    map.tileSize,
+    crew,
+    totals
+  );
+  return simulation;
+}
+
+/**
+ * Returns the state of the hostiles of @param simulation.
+ */
+export function hostiles(simulation: Simulation): IHostileSnapshot[] {
+  return simulation.toSnapshot().zombies;
+}
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { createSimulation, hostiles, mapObject } from './helpers';
+
+// The crew in the right room are out of reach of the hostiles in the left.
+const rooms = ['#########', '#...#...#', '#...#...#', '#########'];
+
+describe('Infection', () => {
+  it('raises bitten crew as hostiles once it runs its course', async () => {
+    const simulation = createSimulation(rooms, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann', melee: 'sure' }),
+      mapObject('pc-spawn', 6, 1, { name: 'Bob' }),
+      mapObject('hostile-spawn', 2, 1, { melee: 'sure', hp: 1, ap: 1 }),
+    ]);
+    const ann = simulation.selectedPlayer;
+    await simulation.execute({ type: 'end-turn' });
+    assert.notStrictEqual(ann.infection, null);
+    // Killing the hostile doesn't cure the bite.
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    assert.strictEqual(hostiles(simulation).length, 0);
+    while (ann.infection !== null && ann.infection > 1) {
+      await simulation.execute({ type: 'end-turn' });
+      assert(simulation.crew.indexOf(ann) !== -1);
+    }
+    await simulation.execute({ type: 'end-turn' });
+    assert.deepStrictEqual(simulation.crew.map(c => c.name), ['Bob']);
+    assert.deepStrictEqual(hostiles(simulation).map(h => h.name), [
+      'Zombie Ann',
+    ]);
+  });
+
+  it('raises crew killed by hostiles', async () => {
+    const simulation = createSimulation(rooms, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann', hp: 1 }),
+      mapObject('pc-spawn', 6, 1, { name: 'Bob' }),
+      mapObject('hostile-spawn', 2, 1, { melee: 'sure', ap: 1 }),
+    ]);
+    await simulation.execute({ type: 'end-turn' });
+    assert.deepStrictEqual(simulation.crew.map(c => c.name), ['Bob']);
+    assert.deepStrictEqual(
+      hostiles(simulation)
+        .map(h => h.name)
+        .sort(),
+      ['Zombie', 'Zombie Ann']
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { ICampaign } from '../src/game/campaign';
+import { Random } from '../src/game/random';
+import { MapDataError } from '../src/game/world/schema';
+import { Simulation } from '../src/game/world/simulation';
+import { ITiledMap, TiledMap } from '../src/game/world/tiled';
+import { asset, createSimulation, gameData, mapObject } from './helpers';
+
+const corridor = ['######', '#....#', '######'];
+
+describe('Loading maps', () => {
+  it('loads every level of the campaign', () => {
+    asset<ICampaign>('campaign.json').levels.forEach((level, i) => {
+      const map = new TiledMap(
+        asset<ITiledMap>(level.map.replace('src/assets/', ''))
+      );
+      const simulation = new Simulation(
+        map.createGrid('Ground'),
+        gameData(),
+        new Random(1),
+        i
+      );
+      simulation.loadFromObjects(map.objects('Objects'), map.tileSize);
+      assert(simulation.crew.length > 0);
+    });
+  });
+
+  it('rejects properties the object type does not use', () => {
+    const misspelled = mapObject('grid-event', 2, 1, {
+      'grid-event-type': 'damage',
+      'per-charcter': true,
+    });
+    assert.throws(
+      () =>
+        createSimulation(corridor, [
+          mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+          misspelled,
+        ]),
+      (e: Error) =>
+        e instanceof MapDataError &&
+        e.objectId === misspelled.id &&
+        e.message.indexOf('"per-charcter"') !== -1
+    );
+  });
+
+  it('requires a pc-spawn', () => {
+    assert.throws(
+      () => createSimulation(corridor, [mapObject('hostile-spawn', 2, 1)]),
+      (e: Error) => e instanceof MapDataError && e.objectId === null
+    );
+  });
+
+  it('rejects patrol points outside the map', () => {
+    const route = {
+      ...mapObject('patrol-route', 1, 1, {}, 'route'),
+      polyline: [{ x: 0, y: 0 }, { x: 32 * 10, y: 0 }],
+    };
+    assert.throws(
+      () =>
+        createSimulation(corridor, [
+          mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+          route,
+        ]),
+      (e: Error) => e instanceof MapDataError && e.objectId === route.id
+    );
+  });
+
+  it('places carried-over crew, with their hit points, past any units', () => {
+    const previous = createSimulation(corridor, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann', hp: 3 }),
+      mapObject('pc-spawn', 2, 1, { name: 'Bob' }),
+    ]);
+    previous.crew[0].stats.useHitPoints(2);
+    const simulation = createSimulation(
+      corridor,
+      [
+        mapObject('pc-spawn', 1, 1, { name: 'Cat' }),
+        mapObject('hostile-spawn', 2, 1),
+      ],
+      1,
+      previous.crew.map(c => c.toSnapshot())
+    );
+    assert.deepStrictEqual(
+      simulation.crew.map(c => [c.name, c.x, c.y, c.stats.hitPoints]),
+      [['Ann', 1, 1, 1], ['Bob', 3, 1, 5]]
+    );
+  });
+
+  it('adds up the totals of the campaign, counting crew once', async () => {
+    const previous = createSimulation(corridor, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('pc-spawn', 2, 1, { name: 'Bob' }),
+    ]);
+    const simulation = createSimulation(
+      corridor,
+      [
+        mapObject('pc-spawn', 1, 1, { name: 'Cat' }),
+        mapObject('npc-spawn', 4, 1, { name: 'Dan' }, 'pc-2'),
+      ],
+      1,
+      [previous.crew[0].toSnapshot()],
+      { crewTotal: 2, turns: 3, zombiesKilled: 4 }
+    );
+    await simulation.execute({ type: 'end-turn' });
+    await simulation.execute({ type: 'act', x: 3, y: 1 });
+    await simulation.execute({ type: 'answer', question: 0, choice: 0 });
+    assert.deepStrictEqual(simulation.campaignTotals, {
+      crewTotal: 3,
+      turns: 5,
+      zombiesKilled: 4,
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { UnitActionType } from '../src/game/world/unit';
+import { createSimulation, mapObject } from './helpers';
+
+const room = ['#########', '#.......#', '#.......#', '#.......#', '#########'];
+
+describe('Moving', () => {
+  it('walks several cells in one move, spending an AP per cell', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+    ]);
+    await simulation.execute({ type: 'act', x: 4, y: 1 });
+    const pc = simulation.selectedPlayer;
+    assert.deepStrictEqual([pc.x, pc.y], [4, 1]);
+    assert.strictEqual(pc.stats.actionPoints, 2);
+  });
+
+  it('only offers moves within the AP left', () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann', ap: 3 }),
+    ]);
+    const moves = simulation.playerActions.filter(
+      a => a.type === UnitActionType.Move
+    );
+    assert(moves.some(a => a.position.x === 4 && a.position.y === 1));
+    assert(!moves.some(a => a.position.x === 5 && a.position.y === 1));
+  });
+
+  it('walks around walls', async () => {
+    const simulation = createSimulation(
+      ['#######', '#..#..#', '#..#..#', '#.....#', '#######'],
+      [mapObject('pc-spawn', 2, 1, { name: 'Ann' })]
+    );
+    await simulation.execute({ type: 'act', x: 4, y: 1 });
+    const pc = simulation.selectedPlayer;
+    assert.deepStrictEqual([pc.x, pc.y], [4, 1]);
+    assert.strictEqual(pc.stats.actionPoints, 1);
+  });
+
+  it('stops on a grid event along the way', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('grid-event', 3, 1, { 'grid-event-type': 'damage' }),
+    ]);
+    await simulation.execute({ type: 'act', x: 5, y: 1 });
+    const pc = simulation.selectedPlayer;
+    assert.deepStrictEqual([pc.x, pc.y], [3, 1]);
+    assert.strictEqual(pc.stats.actionPoints, 3);
+    assert.strictEqual(pc.stats.hitPoints, 4);
+  });
+
+  it('picks up items along the way', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('item', 2, 1, { item: 'medkit' }),
+    ]);
+    await simulation.execute({ type: 'act', x: 5, y: 1 });
+    const pc = simulation.selectedPlayer;
+    assert.deepStrictEqual([pc.x, pc.y], [2, 1]);
+    assert.deepStrictEqual(pc.items, ['medkit']);
+  });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { Character } from '../src/game/world/unit';
+import { createSimulation, mapObject } from './helpers';
+
+const room = ['#######', '#.....#', '#.....#', '#######'];
+
+/**
+ * Starts a game with Ann at (1, 1) and Bob, waiting to be recruited, at
+ * (3, 1), counting how many times Bob asks to join.
+ */
+function recruitment() {
+  const simulation = createSimulation(room, [
+    mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+    mapObject('npc-spawn', 3, 1, { name: 'Bob' }, 'pc-2'),
+  ]);
+  const bob = Array.from(simulation.grid.get(3, 1).units)[0] as Character;
+  const asked = { count: 0 };
+  bob.events.on('speak', ({ choices }) => {
+    asked.count += choices.length > 0 ? 1 : 0;
+  });
+  return { simulation, asked };
+}
+
+describe('Recruiting', () => {
+  it('asks once as the crew comes near', async () => {
+    const { simulation, asked } = recruitment();
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    await simulation.execute({ type: 'act', x: 2, y: 2 });
+    assert.strictEqual(asked.count, 1);
+    await simulation.execute({ type: 'answer', question: 0, choice: 0 });
+    assert.deepStrictEqual(simulation.crew.map(c => c.name), ['Ann', 'Bob']);
+  });
+
+  it('asks again on the next approach, once answered', async () => {
+    const { simulation, asked } = recruitment();
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    await simulation.execute({ type: 'answer', question: 0, choice: 1 });
+    await simulation.execute({ type: 'act', x: 1, y: 1 });
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    assert.strictEqual(asked.count, 2);
+    assert.deepStrictEqual(simulation.crew.map(c => c.name), ['Ann']);
+  });
+
+  it('lets the approach be undone, and the offer lapse', async () => {
+    const { simulation } = recruitment();
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    assert(simulation.canUndo);
+    await simulation.execute({ type: 'undo' });
+    await simulation.execute({ type: 'answer', question: 0, choice: 0 });
+    assert.deepStrictEqual(simulation.crew.map(c => c.name), ['Ann']);
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { Random } from '../src/game/random';
+import { Replay } from '../src/game/world/replay';
+import { Simulation } from '../src/game/world/simulation';
+import { IWorldSnapshot } from '../src/game/world/snapshot';
+import { TiledMap } from '../src/game/world/tiled';
+import { createSimulation, gameData, mapObject, tiledMap } from './helpers';
+
+const room = ['#########', '#.......#', '#.......#', '#.......#', '#########'];
+
+function objects() {
+  return [
+    mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+    mapObject('pc-spawn', 1, 3, { name: 'Bob' }),
+    mapObject('hostile-spawn', 6, 2, { hp: 5 }),
+    mapObject('grid-event', 3, 1, {
+      'grid-event-type': 'speak',
+      text: 'Hello?',
+      once: true,
+    }),
+  ];
+}
+
+describe('Replays and snapshots', () => {
+  it('replays a game to the same state', async () => {
+    const seed = 3;
+    const simulation = createSimulation(room, objects(), seed);
+    const replay = new Replay(simulation);
+    const [ann, bob] = simulation.crew;
+    await simulation.execute({ type: 'act', x: 4, y: 1 });
+    await simulation.execute({ type: 'act', x: 5, y: 1 });
+    await simulation.execute({ type: 'select', id: bob.id });
+    await simulation.execute({ type: 'act', x: 3, y: 3 });
+    await simulation.execute({ type: 'end-turn' });
+    await simulation.execute({ type: 'select', id: ann.id });
+    for (const action of simulation.playerActions.filter(a => a.targetUnit)) {
+      await simulation.execute({ type: 'act', ...action.position });
+    }
+    await simulation.execute({ type: 'end-turn' });
+
+    const replayed = createSimulation(room, objects(), seed);
+    await Replay.play(replayed, replay.toReplay());
+    assert.deepStrictEqual(replayed.toSnapshot(), simulation.toSnapshot());
+  });
+
+  it('parses exported replays, rejecting anything else', async () => {
+    const simulation = createSimulation(room, objects());
+    const replay = new Replay(simulation);
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    await simulation.execute({ type: 'end-turn' });
+    const text = JSON.stringify(replay.toReplay());
+    assert.deepStrictEqual(Replay.parse(text), replay.toReplay());
+    assert.throws(() => Replay.parse('not json'), /not a replay/);
+    assert.throws(() => Replay.parse('{"version": 3}'), /not a replay/);
+    assert.throws(
+      () => Replay.parse(text.replace(/"version":\d+/, '"version":-1')),
+      /incompatible version/
+    );
+    assert.throws(
+      () => Replay.parse(text.replace('"e"', '"?"')),
+      /Invalid replay command/
+    );
+  });
+
+  it('resumes a snapshot to the same state', async () => {
+    const simulation = createSimulation(room, objects(), 5);
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    await simulation.execute({ type: 'end-turn' });
+    const snapshot = simulation.toSnapshot();
+    const resumed = resume(snapshot);
+    assert.deepStrictEqual(resumed.toSnapshot(), snapshot);
+    // Playing on from the snapshot leaves it as it was, to be loaded again.
+    await resumed.execute({ type: 'act', x: 3, y: 1 });
+    assert.deepStrictEqual(snapshot.gridEvents[0].triggeredBy, []);
+    assert.deepStrictEqual(resume(snapshot).toSnapshot(), snapshot);
+  });
+});
+
+function resume(snapshot: IWorldSnapshot): Simulation {
+  const simulation = new Simulation(
+    new TiledMap(tiledMap(room, [])).createGrid('Ground'),
+    gameData(),
+    new Random(snapshot.random.seed, snapshot.random.state),
+    snapshot.level
+  );
+  simulation.loadFromSnapshot(snapshot);
+  return simulation;
+}
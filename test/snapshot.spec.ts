@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { SnapshotStorage } from '../src/game/world/snapshot';
+import { createSimulation, mapObject } from './helpers';
+
+/**
+ * Browser storage, kept in memory.
+ */
+class MemoryStorage implements Storage {
+  [name: string]: {};
+  private readonly items = new Map<string, string>();
+
+  public get length(): number {
+    return this.items.size;
+  }
+
+  public clear(): void {
+    this.items.clear();
+  }
+
+  public getItem(key: string): string | null {
+    const value = this.items.get(key);
+    return value === undefined ? null : value;
+  }
+
+  public key(index: number): string | null {
+    const key = Array.from(this.items.keys())[index];
+    return key === undefined ? null : key;
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+describe('Saved games', () => {
+  it('loads the snapshot saved in a slot', () => {
+    const storage = new SnapshotStorage(new MemoryStorage());
+    const simulation = createSimulation(
+      ['#####', '#...#', '#####'],
+      [mapObject('pc-spawn', 1, 1, { name: 'Ann' })]
+    );
+    storage.save('1', simulation.toSnapshot());
+    assert.deepStrictEqual(storage.load('1'), simulation.toSnapshot());
+    assert.strictEqual(storage.load('2'), null);
+  });
+
+  it('discards saves that are not snapshots', () => {
+    const browser = new MemoryStorage();
+    const storage = new SnapshotStorage(browser);
+    ['{"version": 9', 'null', '7'].forEach(json => {
+      browser.setItem('ludum-43/save/auto', json);
+      assert.strictEqual(storage.load('auto'), null);
+      assert.strictEqual(browser.length, 0);
+    });
+  });
+});
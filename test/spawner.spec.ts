@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { createSimulation, hostiles, mapObject } from './helpers';
+
+// The spawners are walled off from the crew, in the right room.
+const rooms = [
+  '###########',
+  '#...#.....#',
+  '#...#.....#',
+  '#...#.....#',
+  '###########',
+];
+
+describe('Spawners', () => {
+  it('spawns growing waves on schedule, up to a limit', async () => {
+    const simulation = createSimulation(rooms, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('spawner', 7, 2, { every: 2, growth: 1, waves: 2 }, 'vent'),
+    ]);
+    const counts: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      await simulation.execute({ type: 'end-turn' });
+      counts.push(hostiles(simulation).length);
+    }
+    assert.deepStrictEqual(counts, [1, 1, 3, 3, 3]);
+  });
+
+  it('waits to be activated by a grid event', async () => {
+    const simulation = createSimulation(rooms, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('spawner', 7, 2, { count: 2 }, 'vent'),
+      mapObject('grid-event', 2, 1, {
+        'grid-event-type': 'activate-spawner',
+        spawner: 'vent',
+        once: true,
+      }),
+    ]);
+    await simulation.execute({ type: 'end-turn' });
+    assert.strictEqual(hostiles(simulation).length, 0);
+    await simulation.execute({ type: 'act', x: 2, y: 1 });
+    assert.strictEqual(hostiles(simulation).length, 2);
+  });
+});
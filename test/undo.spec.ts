@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { createSimulation, mapObject } from './helpers';
+
+const room = ['#######', '#.....#', '#.....#', '#######'];
+
+describe('Undo', () => {
+  it("restores the character's position, facing and AP", async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+    ]);
+    const pc = simulation.selectedPlayer;
+    const rotation = pc.rotation;
+    await simulation.execute({ type: 'act', x: 3, y: 2 });
+    await simulation.execute({ type: 'act', x: 5, y: 1 });
+    assert(simulation.canUndo);
+    await simulation.execute({ type: 'undo' });
+    assert.deepStrictEqual([pc.x, pc.y], [3, 2]);
+    assert.strictEqual(pc.stats.actionPoints, 3);
+    await simulation.execute({ type: 'undo' });
+    assert.deepStrictEqual([pc.x, pc.y], [1, 1]);
+    assert.strictEqual(pc.rotation, rotation);
+    assert.strictEqual(pc.stats.actionPoints, 5);
+    assert(!simulation.canUndo);
+  });
+
+  it("can't take back a move once followed by an attack", async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann', melee: 'never' }),
+      mapObject('hostile-spawn', 4, 1, { hp: 5 }),
+    ]);
+    await simulation.execute({ type: 'act', x: 3, y: 1 });
+    assert(simulation.canUndo);
+    await simulation.execute({ type: 'act', x: 4, y: 1 });
+    assert(!simulation.canUndo);
+  });
+
+  it("can't take back a move that fires a grid event", async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+      mapObject('grid-event', 2, 1, {
+        'grid-event-type': 'speak',
+        text: 'Hello?',
+      }),
+    ]);
+    await simulation.execute({ type: 'act', x: 3, y: 1 });
+    assert(!simulation.canUndo);
+  });
+
+  it('forgets moves once the turn ends', async () => {
+    const simulation = createSimulation(room, [
+      mapObject('pc-spawn', 1, 1, { name: 'Ann' }),
+    ]);
+    await simulation.execute({ type: 'act', x: 3, y: 1 });
+    await simulation.execute({ type: 'end-turn' });
+    assert(!simulation.canUndo);
+  });
+});